@@ -1,15 +1,48 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
 import './App.css'
 import { LoadingOverlay } from './components/LoadingOverlay'
+import { CacheInspector } from './components/CacheInspector'
+import { ExplorationNavigator } from './components/ExplorationNavigator'
+import { DiveExportPanel } from './components/DiveExportPanel'
+import { PromptControls } from './components/PromptControls'
+import { RegionSelector } from './components/RegionSelector'
+import { VariantPicker } from './components/VariantPicker'
+import { ComparisonView } from './components/ComparisonView'
+import { FidelityReadout } from './components/FidelityReadout'
+import { Minimap } from './components/Minimap'
+import { ShortcutHelp } from './components/ShortcutHelp'
+import { TriggerControls } from './components/TriggerControls'
+import { SpendConfirmation } from './components/SpendConfirmation'
+import { PyramidViewer } from './components/PyramidViewer'
 import { useImageCache } from './hooks/useImageCache'
-import { geminiService } from './services/geminiService'
-import { shouldEnhanceImage, getVisibleImageBounds, generateCacheKey } from './utils/viewport'
-import type { EnhancedImage, EnhancementState } from './types/enhancement'
-
-interface ImageHistoryItem {
-  image: string
-  level: number
-  timestamp: number
+import { useMosaic } from './hooks/useMosaic'
+import { useExplorationTree } from './hooks/useExplorationTree'
+import { useTilePyramid } from './hooks/useTilePyramid'
+import { usePointerGestures } from './hooks/usePointerGestures'
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
+import { usePrefetcher, type PrefetchCandidate } from './hooks/usePrefetcher'
+import { enhancementService } from './services/enhancementService'
+import { isEnhancementCancelled, toEnhancementErrorInfo } from './services/enhancementErrors'
+import { sessionArchiveService, SESSION_FILE_EXTENSION } from './services/sessionArchive'
+import { promptLibrary } from './services/promptLibrary'
+import { shortcutRegistry } from './services/shortcutRegistry'
+import { triggerSettingsStore } from './services/triggerSettings'
+import { shouldEnhanceImage, getVisibleImageBounds, generateCacheKey, cropNormalizedRegion, isFullRegion, regionZoomLevel } from './utils/viewport'
+import { computeImageDigest } from './utils/hash'
+import { normalizeViewport } from './utils/similarity'
+import { centerOn, computeViewMatrix, getFitToHeightZoom, getVisibleWorldRect, panBy, zoomAtPoint, type ViewLayout, type ViewState } from './utils/viewTransform'
+import { describeLineage, renderPromptTemplate } from './utils/promptTemplate'
+import { planTiles } from './utils/tiling'
+import { DEFAULT_PREDICTION_OPTIONS, predictNextViews } from './utils/prefetch'
+import { FIDELITY_GATES, computeFidelityMetrics, findFidelityFailures } from './utils/fidelity'
+import type { CropArea, EnhancedImage, EnhancementErrorKind, EnhancementState, EnhancementTriggerSettings, FidelityMetrics, NormalizedRegion, TileProgress } from './types/enhancement'
+import type { ShortcutAction } from './types/shortcuts'
+
+interface EnhancementTarget {
+  sourceDigest: string // identity of the coordinate space `viewport` is in, for caching
+  viewport: CropArea
+  magnification: number // zoom relative to the sharpest detail already on screen
+  loadSource: () => Promise<{ image: string; cropArea: CropArea }>
 }
 
 interface AspectRatio {
@@ -29,74 +62,268 @@ const aspectRatios: AspectRatio[] = [
   { label: '2:3', value: '2 / 3', width: 2, height: 3 },
 ]
 
+// Where an enhancement came from, needed to place it once it is accepted
+interface EnhancementOrigin {
+  viewport: CropArea
+  zoomLevel: number
+  parentNodeId: string
+  model: string
+  prompt: string
+}
+
+interface PendingVariants {
+  cacheKey: string
+  candidates: EnhancedImage[]
+  origin: EnhancementOrigin
+}
+
+// An enhancement output with what is needed to judge and store it
+interface MeasuredOutput {
+  data: string
+  digest: string
+  metrics: FidelityMetrics
+}
+
+// Before/after pair for the layer it was opened on; hidden once another layer is in view
+interface Comparison {
+  nodeId: string
+  before: string
+  after: string
+}
+
+// Requests awaiting the user's go-ahead when confirm-before-spend is on
+interface SpendRequest {
+  providerLabel: string
+  requestCount: number
+  maxRequestCount: number
+  resolve: (confirmed: boolean) => void
+}
+
+const VARIANT_COUNTS = [1, 2, 3, 4]
+// Zoom factor of the +/- buttons and keys
+const ZOOM_STEP = 1.5
+// How long the view must stay still before speculative enhancements start
+const PREFETCH_SETTLE_MS = 800
+// Further attempts when a single result fails the fidelity gate
+const MAX_FIDELITY_RETRIES = 2
+
+// Nothing running and nothing to report
+const IDLE_ENHANCEMENT_STATE: EnhancementState = {
+  isProcessing: false,
+  error: null,
+  progress: 0,
+  lastProcessedZoom: 0
+}
+
+// Longest side of the region rendered from the pyramid and sent for enhancement
+const DEEP_ZOOM_SOURCE_MAX = 2048
+
+const errorHints: Record<EnhancementErrorKind, string> = {
+  'quota': 'The API quota is exhausted; wait a minute or switch to the local enhancer.',
+  'safety': 'The model declined this region; try a different area.',
+  'no-image': 'The model replied without an image; zoom again to retry.',
+  'transient': 'The service is unavailable; zoom again to retry.',
+  'invalid-key': 'Check VITE_GOOGLE_AI_API_KEY in your .env file.',
+  'unknown': 'See the browser console for details.'
+}
+
+const cacheKeyFor = (target: EnhancementTarget, zoomLevel: number, prompt: string): string => {
+  const { x, y, width, height } = target.viewport
+  return generateCacheKey(target.sourceDigest, { x, y, width, height }, zoomLevel, prompt)
+}
+
+// The source crop exactly as it is sent, which every result is measured against
+const cropSentFrame = (source: { image: string; cropArea: CropArea }): Promise<string> => {
+  return cropNormalizedRegion(
+    source.image,
+    normalizeViewport(source.cropArea, source.cropArea.sourceWidth, source.cropArea.sourceHeight)
+  )
+}
+
+const measureOutput = async (sourceCrop: string, data: string): Promise<MeasuredOutput> => ({
+  data,
+  digest: await computeImageDigest(data),
+  metrics: await computeFidelityMetrics(sourceCrop, data)
+})
+
+const createEnhancedImage = (
+  id: string,
+  result: MeasuredOutput,
+  target: EnhancementTarget,
+  zoomLevel: number,
+  prompt: string,
+  createdAt: number
+): EnhancedImage => ({
+  id,
+  data: result.data,
+  zoomLevel,
+  viewport: {
+    x: target.viewport.x,
+    y: target.viewport.y,
+    width: target.viewport.width,
+    height: target.viewport.height
+  },
+  sourceDigest: target.sourceDigest,
+  sourceWidth: target.viewport.sourceWidth,
+  sourceHeight: target.viewport.sourceHeight,
+  digest: result.digest,
+  prompt,
+  metrics: result.metrics,
+  createdAt
+})
+
 function App() {
-  const [originalImageSrc, setOriginalImageSrc] = useState<string>('')
-  const [imageHistory, setImageHistory] = useState<ImageHistoryItem[]>([])
-  const [currentHistoryIndex, setCurrentHistoryIndex] = useState(0)
   const [isDragOver, setIsDragOver] = useState(false)
   const [zoomLevel, setZoomLevel] = useState(1)
   const [panPosition, setPanPosition] = useState({ x: 0, y: 0 })
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 })
+  const [displaySize, setDisplaySize] = useState({ width: 0, height: 0 }) // natural size of the displayed image
   const [isPanning, setIsPanning] = useState(false)
   const [lastPanPoint, setLastPanPoint] = useState({ x: 0, y: 0 })
   const [currentDisplayImage, setCurrentDisplayImage] = useState<string>('')
-  const [enhancementState, setEnhancementState] = useState<EnhancementState>({
-    isProcessing: false,
-    error: null,
-    progress: 0,
-    lastProcessedZoom: 0
-  })
-  const [currentRequestId, setCurrentRequestId] = useState<string | null>(null)
+  const [enhancementState, setEnhancementState] = useState<EnhancementState>(IDLE_ENHANCEMENT_STATE)
   const [isTransitioning, setIsTransitioning] = useState(false)
   const [selectedRatio, setSelectedRatio] = useState<AspectRatio>(aspectRatios[1]) // Default to 4:3
+  const [providerId, setProviderId] = useState(() => enhancementService.getActiveProvider().id)
+  const [isCacheInspectorOpen, setIsCacheInspectorOpen] = useState(false)
+  const [isDiveExportOpen, setIsDiveExportOpen] = useState(false)
+  const [isTilingEnabled, setIsTilingEnabled] = useState(false)
+  const [isContextEnabled, setIsContextEnabled] = useState(false)
+  const [isSelectingRegion, setIsSelectingRegion] = useState(false)
+  const [variantCount, setVariantCount] = useState(1)
+  const [pendingVariants, setPendingVariants] = useState<PendingVariants | null>(null)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [fidelityGateId, setFidelityGateId] = useState('off')
+  const [isMinimapEnabled, setIsMinimapEnabled] = useState(true)
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false)
+  const [shortcutBindings, setShortcutBindings] = useState(() => shortcutRegistry.getBindings())
+  const [triggerSettings, setTriggerSettings] = useState(() => triggerSettingsStore.getSettings())
+  const [spendRequest, setSpendRequest] = useState<SpendRequest | null>(null)
+  const [sessionError, setSessionError] = useState<string | null>(null)
+  const [promptPresetId, setPromptPresetId] = useState(() => promptLibrary.getDefaultPresetId())
+  const [promptOverride, setPromptOverride] = useState<string | null>(null)
   
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const sessionInputRef = useRef<HTMLInputElement>(null)
   const zoomContainerRef = useRef<HTMLDivElement>(null)
   const imageRef = useRef<HTMLImageElement>(null)
+  // Set when the next displayed image should open fitted to the viewfinder's height
+  const fitOnLoadRef = useRef(false)
   const enhancementTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const wrapperRef = useRef<HTMLDivElement>(null)
+  // Tracks the one request whose result may still be applied; cleared on cancel
+  const activeRequestIdRef = useRef<string | null>(null)
   
-  const { getCachedImage, setCachedImage, findSimilarCachedImage, clearCache } = useImageCache(20)
+  const { cache, getCachedImage, setCachedImage, findSimilarCachedImage, clearCache, hydrateFromPersistent } = useImageCache(20)
+  const {
+    spent: prefetchSpent,
+    isPrefetching,
+    schedule: schedulePrefetchJobs,
+    cancel: cancelPrefetch,
+    reset: resetPrefetch
+  } = usePrefetcher(triggerSettings.prefetchBudget)
+  const {
+    tree: explorationTree,
+    rootNode,
+    currentNode,
+    startTree,
+    addChild,
+    selectNode,
+    getParentId,
+    getNextChildId,
+    getPath,
+    getChildren,
+    restoreTree,
+    clearTree
+  } = useExplorationTree()
+  const originalImageSrc = rootNode?.image ?? ''
+  const explorationNodeCount = Object.keys(explorationTree.nodes).length
+  const fidelityThresholds = FIDELITY_GATES.find(gate => gate.id === fidelityGateId)?.thresholds ?? null
+  const {
+    mosaicSrc,
+    mosaicDigest,
+    patchCount: mosaicPatchCount,
+    isActive: isMosaicActive,
+    startMosaic,
+    compositePatch,
+    exportMosaic,
+    stopMosaic
+  } = useMosaic()
+  const {
+    pyramid,
+    version: pyramidVersion,
+    baseDigest: pyramidBaseDigest,
+    startPyramid,
+    addPyramidLayer,
+    stopPyramid
+  } = useTilePyramid()
+  // Deep zoom keeps going as long as there is finer detail to look at
+  const maxZoom = pyramid ? Math.max(10, 10 * pyramid.getMaxDensity()) : 10
+  const zoomLimits = useMemo(() => ({ min: 0.1, max: maxZoom }), [maxZoom])
 
-  // Helper function to get current base image
-  const getCurrentBaseImage = useCallback(() => {
-    if (currentHistoryIndex === -1 || imageHistory.length === 0) return originalImageSrc
-    return imageHistory[currentHistoryIndex]?.image || originalImageSrc
-  }, [imageHistory, currentHistoryIndex, originalImageSrc])
+  // The view transform maps between the viewfinder and whatever fills it: the pyramid's base
+  // image in deep zoom, otherwise the displayed image. Null until both have been measured
+  const contentWidth = pyramid ? pyramid.width : displaySize.width
+  const contentHeight = pyramid ? pyramid.height : displaySize.height
+  const viewLayout = useMemo((): ViewLayout | null => {
+    if (!viewportSize.width || !viewportSize.height || !contentWidth || !contentHeight) return null
+    return {
+      viewportWidth: viewportSize.width,
+      viewportHeight: viewportSize.height,
+      contentWidth,
+      contentHeight
+    }
+  }, [viewportSize, contentWidth, contentHeight])
+  const viewMatrix = viewLayout ? computeViewMatrix(viewLayout, { zoomLevel, panPosition }) : null
 
-  // Calculate zoom level to fit image to container height
-  const calculateFitToHeightZoom = useCallback(() => {
-    if (!imageRef.current || !zoomContainerRef.current) return 1
-    
-    const containerHeight = zoomContainerRef.current.clientHeight
-    const imageNaturalHeight = imageRef.current.naturalHeight
-    const imageDisplayHeight = imageRef.current.offsetHeight
-    
-    // Calculate zoom needed to fit height
-    const fitZoom = containerHeight / imageDisplayHeight
-    
-    // Clamp between min and max zoom levels
-    return Math.min(Math.max(fitZoom, 0.1), 10)
-  }, [])
+  // Latest zoom and pan, for handlers that update them several times between renders
+  const viewRef = useRef<ViewState>({ zoomLevel, panPosition })
+  viewRef.current = { zoomLevel, panPosition }
+
+  const applyView = (view: ViewState) => {
+    viewRef.current = view
+    setZoomLevel(view.zoomLevel)
+    setPanPosition(view.panPosition)
+  }
 
-  // Helper function to add new enhanced image to history
-  const addToHistory = useCallback((enhancedImage: string) => {
-    const newHistoryItem: ImageHistoryItem = {
-      image: enhancedImage,
-      level: imageHistory.length + 1,
-      timestamp: Date.now()
+  // Container-relative position of a pointer event
+  const toViewportPoint = (clientX: number, clientY: number) => {
+    const container = zoomContainerRef.current
+    if (!container) return { x: clientX, y: clientY }
+    const rect = container.getBoundingClientRect()
+    return { x: clientX - rect.left - container.clientLeft, y: clientY - rect.top - container.clientTop }
+  }
+
+  const cancelActiveRequest = useCallback(() => {
+    if (activeRequestIdRef.current) {
+      enhancementService.cancelRequest(activeRequestIdRef.current)
+      activeRequestIdRef.current = null
     }
-    setImageHistory(prev => [...prev, newHistoryItem])
-    setCurrentHistoryIndex(imageHistory.length)
-  }, [imageHistory.length])
+  }, [])
+
+  // Helper function to get current base image
+  const getCurrentBaseImage = useCallback(() => {
+    // In mosaic mode the growing composite is the base everything is cropped from
+    if (mosaicSrc) return mosaicSrc
+    return currentNode?.image ?? ''
+  }, [mosaicSrc, currentNode])
+
+  // Content digest of the current base image, used to key the cache
+  const getCurrentBaseDigest = useCallback(() => {
+    if (mosaicDigest) return mosaicDigest
+    return currentNode?.digest ?? ''
+  }, [mosaicDigest, currentNode])
 
   // Simple image switching without effects
-  const performLensTransition = useCallback(async (newIndex: number, direction: 'next' | 'previous') => {
+  const performLensTransition = useCallback(async (nodeId: string, direction: 'next' | 'previous' | 'jump') => {
     if (!wrapperRef.current || !imageRef.current) return
     
     setIsTransitioning(true)
+    stopMosaic()
+    stopPyramid()
     
     // Simply switch to the new image at 100% zoom
-    setCurrentHistoryIndex(newIndex)
+    selectNode(nodeId)
     setPanPosition({ x: 0, y: 0 })
     setZoomLevel(1.0)
     
@@ -104,42 +331,44 @@ function App() {
     setTimeout(() => {
       setIsTransitioning(false)
     }, 100)
-  }, [])
+  }, [stopMosaic, stopPyramid, selectNode])
   
-  // Navigation functions
+  // Navigation functions: Previous climbs to the parent, Next descends the branch last visited
+  const previousNodeId = currentNode ? getParentId(currentNode.id) : null
+  const nextNodeId = currentNode ? getNextChildId(currentNode.id) : null
+
   const goToPreviousImage = useCallback(() => {
-    if (isTransitioning) return
-    
-    const targetIndex = currentHistoryIndex > 0 ? currentHistoryIndex - 1 : -1
-    if (targetIndex === currentHistoryIndex) return
-    
-    performLensTransition(targetIndex, 'previous')
-  }, [currentHistoryIndex, imageHistory.length, isTransitioning, performLensTransition])
+    if (isTransitioning || !previousNodeId) return
+    performLensTransition(previousNodeId, 'previous')
+  }, [previousNodeId, isTransitioning, performLensTransition])
 
   const goToNextImage = useCallback(() => {
-    if (isTransitioning || currentHistoryIndex >= imageHistory.length - 1) return
-    
-    const targetIndex = currentHistoryIndex + 1
-    performLensTransition(targetIndex, 'next')
-  }, [currentHistoryIndex, imageHistory.length, isTransitioning, performLensTransition])
+    if (isTransitioning || !nextNodeId) return
+    performLensTransition(nextNodeId, 'next')
+  }, [nextNodeId, isTransitioning, performLensTransition])
+
+  const goToNode = useCallback((nodeId: string) => {
+    if (isTransitioning || nodeId === currentNode?.id) return
+    performLensTransition(nodeId, 'jump')
+  }, [currentNode, isTransitioning, performLensTransition])
 
   const handleImageUpload = (file: File) => {
     const reader = new FileReader()
-    reader.addEventListener('load', () => {
+    reader.addEventListener('load', async () => {
       const newImageSrc = reader.result?.toString() || ''
-      setOriginalImageSrc(newImageSrc)
+      const newImageDigest = await computeImageDigest(newImageSrc)
+      startTree(newImageSrc, newImageDigest) // the upload is the root of a new exploration
+      setSessionError(null)
       setCurrentDisplayImage(newImageSrc)
-      setImageHistory([])
-      setCurrentHistoryIndex(-1) // -1 means showing original image
       setZoomLevel(1)
       setPanPosition({ x: 0, y: 0 })
       clearCache()
-      setEnhancementState({
-        isProcessing: false,
-        error: null,
-        progress: 0,
-        lastProcessedZoom: 0
-      })
+      abandonPendingWork()
+      cancelActiveRequest()
+      stopMosaic()
+      stopPyramid()
+      setPendingVariants(null)
+      setEnhancementState(IDLE_ENHANCEMENT_STATE)
     })
     reader.readAsDataURL(file)
   }
@@ -168,7 +397,9 @@ function App() {
     const files = e.dataTransfer.files
     if (files.length > 0) {
       const file = files[0]
-      if (file.type.startsWith('image/')) {
+      if (file.name.endsWith(SESSION_FILE_EXTENSION)) {
+        handleImportSession(file)
+      } else if (file.type.startsWith('image/')) {
         handleImageUpload(file)
       }
     }
@@ -178,39 +409,58 @@ function App() {
     fileInputRef.current?.click()
   }
 
+  // Zoom by `factor` keeping whatever is under `point` (container pixels) in place
+  const zoomAround = (factor: number, point: { x: number; y: number }) => {
+    if (!viewLayout) return
+    const current = viewRef.current
+    const view = zoomAtPoint(viewLayout, current, current.zoomLevel * factor, point, zoomLimits)
+    if (view.zoomLevel === current.zoomLevel) return
+    applyView(view)
+    handleZoomChange(view.zoomLevel)
+  }
+
+  const zoomAroundCenter = (factor: number) => {
+    if (!viewLayout) return
+    zoomAround(factor, { x: viewLayout.viewportWidth / 2, y: viewLayout.viewportHeight / 2 })
+  }
+
   const handleZoomIn = () => {
-    setZoomLevel(prev => {
-      const newZoom = Math.min(prev * 1.5, 10)
-      handleZoomChange(newZoom)
-      return newZoom
-    })
+    zoomAroundCenter(ZOOM_STEP)
   }
 
   const handleZoomOut = () => {
-    setZoomLevel(prev => {
-      const newZoom = Math.max(prev / 1.5, 0.1)
-      handleZoomChange(newZoom)
-      return newZoom
-    })
+    zoomAroundCenter(1 / ZOOM_STEP)
   }
 
   const handleResetZoom = () => {
+    gestureHandlers.cancelInertia()
     setZoomLevel(1)
     setPanPosition({ x: 0, y: 0 })
     const currentBase = getCurrentBaseImage()
     setCurrentDisplayImage(currentBase)
-    if (currentRequestId) {
-      geminiService.cancelRequest(currentRequestId)
-      setCurrentRequestId(null)
-    }
-    setEnhancementState({
-      isProcessing: false,
-      error: null,
-      progress: 0,
-      lastProcessedZoom: 0
-    })
+    // Nothing pending for the discarded view may still land or ask to be paid for
+    abandonPendingWork()
+    cancelActiveRequest()
+    setPendingVariants(null)
+    setEnhancementState(IDLE_ENHANCEMENT_STATE)
   }
 
+  const gestureHandlers = usePointerGestures({
+    onPan: (deltaX, deltaY) => {
+      // Same rule as mouse dragging: nothing to pan until zoomed in
+      if (!viewLayout || viewRef.current.zoomLevel <= 1) return
+      applyView(panBy(viewLayout, viewRef.current, deltaX, deltaY))
+    },
+    onPinch: (scaleFactor, center) => zoomAround(scaleFactor, toViewportPoint(center.x, center.y)),
+    onDoubleTap: point => {
+      if (viewRef.current.zoomLevel >= maxZoom) {
+        handleResetZoom()
+        return
+      }
+      zoomAround(2, toViewportPoint(point.x, point.y))
+    }
+  })
+
   const handleMouseDown = (e: React.MouseEvent) => {
     if (zoomLevel > 1) {
       setIsPanning(true)
@@ -220,14 +470,11 @@ function App() {
   }
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (isPanning && zoomLevel > 1) {
+    if (isPanning && zoomLevel > 1 && viewLayout) {
       const deltaX = e.clientX - lastPanPoint.x
       const deltaY = e.clientY - lastPanPoint.y
       
-      setPanPosition(prev => ({
-        x: prev.x + deltaX,
-        y: prev.y + deltaY
-      }))
+      applyView(panBy(viewLayout, viewRef.current, deltaX, deltaY))
       
       setLastPanPoint({ x: e.clientX, y: e.clientY })
     }
@@ -237,60 +484,186 @@ function App() {
     setIsPanning(false)
   }
 
-  const checkAndEnhanceImage = useCallback(async (zoomLevel: number) => {
+  // Work out what the next enhancement is cut from and which cache space its viewport lives in
+  const resolveEnhancementTarget = useCallback((
+    zoomLevel: number,
+    panPosition: { x: number; y: number } = viewRef.current.panPosition
+  ): EnhancementTarget | null => {
+    if (!viewLayout) return null
+    const aspectRatio = selectedRatio.width / selectedRatio.height
+    const view = { zoomLevel, panPosition }
+
+    if (pyramid && pyramidBaseDigest) {
+      // Deep zoom: crop in world (base image) coordinates, sourced from the sharpest layers
+      const worldRect = getVisibleWorldRect(computeViewMatrix(viewLayout, view), viewLayout)
+      const viewport: CropArea = {
+        x: Math.round(worldRect.x),
+        y: Math.round(worldRect.y),
+        width: Math.max(1, Math.round(worldRect.width)),
+        height: Math.max(1, Math.round(worldRect.height)),
+        sourceWidth: pyramid.width,
+        sourceHeight: pyramid.height,
+        aspectRatio
+      }
+      return {
+        sourceDigest: pyramidBaseDigest,
+        viewport,
+        magnification: zoomLevel / pyramid.getDetailDensity(worldRect),
+        loadSource: async () => {
+          const region = pyramid.renderRegion(viewport, DEEP_ZOOM_SOURCE_MAX)
+          return {
+            image: region.toDataURL('image/png'),
+            cropArea: {
+              x: 0,
+              y: 0,
+              width: region.width,
+              height: region.height,
+              sourceWidth: region.width,
+              sourceHeight: region.height,
+              aspectRatio
+            }
+          }
+        }
+      }
+    }
+
     const currentBaseImage = getCurrentBaseImage()
-    
-    if (!shouldEnhanceImage(zoomLevel) || !currentBaseImage || !imageRef.current || !zoomContainerRef.current) {
-      if (zoomLevel <= 3.0 && currentDisplayImage !== currentBaseImage) {
-        setCurrentDisplayImage(currentBaseImage)
+    if (!currentBaseImage) return null
+
+    const cropArea: CropArea = {
+      ...getVisibleImageBounds(viewLayout, view),
+      aspectRatio
+    }
+    return {
+      sourceDigest: getCurrentBaseDigest(),
+      viewport: cropArea,
+      magnification: zoomLevel,
+      loadSource: async () => ({ image: currentBaseImage, cropArea })
+    }
+  }, [viewLayout, pyramid, pyramidBaseDigest, selectedRatio, getCurrentBaseImage, getCurrentBaseDigest])
+
+  // Put an accepted enhancement where it belongs for the current mode
+  const applyEnhancedImage = useCallback(async (image: EnhancedImage, origin: EnhancementOrigin) => {
+    const { viewport, zoomLevel, parentNodeId, model, prompt } = origin
+
+    if (pyramid || isMosaicActive) {
+      // Add the result in place and keep the current zoom and pan
+      if (pyramid) {
+        await addPyramidLayer(image.id, image.data, viewport)
+      } else {
+        await compositePatch(image.data, viewport)
       }
       return
     }
 
+    // Branch the enhanced image off the node it was cropped from and fit to height
+    addChild(parentNodeId, image.data, image.digest, viewport, zoomLevel, model, prompt, image.metrics)
+    setCurrentDisplayImage(image.data)
+    fitOnLoadRef.current = true
+  }, [pyramid, isMosaicActive, addPyramidLayer, compositePatch, addChild])
+
+  // Resolves once the user approves or declines; a newer request declines any still waiting
+  const requestSpendConfirmation = useCallback((providerLabel: string, requestCount: number, maxRequestCount: number) => {
+    return new Promise<boolean>(resolve => {
+      setSpendRequest(previous => {
+        previous?.resolve(false)
+        return { providerLabel, requestCount, maxRequestCount, resolve }
+      })
+    })
+  }, [])
+
+  const handleSpendDecision = (confirmed: boolean) => {
+    spendRequest?.resolve(confirmed)
+    setSpendRequest(null)
+  }
+
+  // Decline a spend still awaiting approval and stop speculative work, so neither outlives its view
+  const abandonPendingWork = useCallback(() => {
+    spendRequest?.resolve(false)
+    setSpendRequest(null)
+    cancelPrefetch()
+  }, [spendRequest, cancelPrefetch])
+
+  // The prompt for an enhancement at `zoomLevel` below the current layer; `instruction` is appended
+  const renderEnhancementPrompt = useCallback((template: string, zoomLevel: number, instruction: string = '') => {
+    return [
+      renderPromptTemplate(template, {
+        zoomLevel,
+        depth: (currentNode?.depth ?? 0) + 1,
+        parentPrompt: currentNode?.prompt ?? ''
+      }),
+      instruction.trim()
+    ].filter(Boolean).join('\n\n')
+  }, [currentNode])
+
+  // Reuse or produce an enhancement of `target`; `instruction` is appended to the prompt
+  const runEnhancement = useCallback(async (target: EnhancementTarget, zoomLevel: number, instruction: string = '') => {
     try {
-      const cropArea = getVisibleImageBounds(
-        zoomContainerRef.current,
-        imageRef.current,
+      const { viewport, sourceDigest } = target
+
+      // A one-shot override wins over the session's preset
+      const prompt = renderEnhancementPrompt(
+        promptOverride ?? promptLibrary.getPreset(promptPresetId)?.template ?? '',
         zoomLevel,
-        panPosition
+        instruction
       )
-
-      const cacheKey = generateCacheKey(currentBaseImage, {
-        x: cropArea.x,
-        y: cropArea.y,
-        width: cropArea.width,
-        height: cropArea.height
-      }, zoomLevel)
+      const cacheKey = cacheKeyFor(target, zoomLevel, prompt)
 
       const cachedImage = getCachedImage(cacheKey)
-      if (cachedImage) {
-        setCurrentDisplayImage(cachedImage.data)
-        return
-      }
+      const similarCached = cachedImage ? null : findSimilarCachedImage(sourceDigest, viewport, zoomLevel, { prompt })
+      const reusable = cachedImage ?? similarCached?.image
 
-      const similarCached = findSimilarCachedImage(
-        currentBaseImage,
-        {
-          x: cropArea.x,
-          y: cropArea.y,
-          width: cropArea.width,
-          height: cropArea.height
-        },
-        zoomLevel,
-        100
-      )
+      if (reusable) {
+        if (pyramid) {
+          // Cached enhancements slot into the pyramid at the region they were made for
+          await addPyramidLayer(reusable.id, reusable.data, reusable.viewport)
+          return
+        }
+
+        // Show only the requested part of the (possibly larger) cached enhancement
+        const region = similarCached?.region
+        const data = region && !isFullRegion(region)
+          ? await cropNormalizedRegion(reusable.data, region)
+          : reusable.data
 
-      if (similarCached) {
-        setCurrentDisplayImage(similarCached.data)
+        // Mosaic mode paints results into the composite; otherwise they replace the display
+        if (isMosaicActive) {
+          await compositePatch(data, viewport)
+        } else {
+          setCurrentDisplayImage(data)
+        }
         return
       }
 
-      if (enhancementState.isProcessing) {
+      // One request at a time, and none while earlier candidates await a choice or a spend awaits approval
+      if (enhancementState.isProcessing || pendingVariants || spendRequest) {
         return
       }
 
-      const requestId = geminiService.generateRequestId()
-      setCurrentRequestId(requestId)
+      // The user may browse elsewhere in the tree while this runs
+      const parentNodeId = currentNode?.id ?? ''
+      const provider = enhancementService.getActiveProvider()
+      const model = provider.model
+
+      // Loaded before asking, so a tiled request can be counted
+      const source = await target.loadSource()
+      if (triggerSettings.confirmBeforeSpend && provider.billable) {
+        const requestCount = variantCount > 1
+          ? variantCount
+          : isTilingEnabled ? planTiles(source.cropArea).length : 1
+        const canRetry = variantCount === 1 && fidelityThresholds !== null
+        const confirmed = await requestSpendConfirmation(
+          provider.label,
+          requestCount,
+          canRetry ? requestCount * (1 + MAX_FIDELITY_RETRIES) : requestCount
+        )
+        if (!confirmed) return
+      }
+
+      // Speculative work must not hold up or compete with what the user asked for
+      cancelPrefetch()
+      const requestId = enhancementService.generateRequestId()
+      activeRequestIdRef.current = requestId
       setEnhancementState({
         isProcessing: true,
         error: null,
@@ -298,61 +671,159 @@ function App() {
         lastProcessedZoom: zoomLevel
       })
 
-      const enhancedImageData = await geminiService.enhanceImageCrop(
-        currentBaseImage,
-        cropArea,
-        requestId,
-        (progress) => {
-          setEnhancementState(prev => ({ ...prev, progress }))
-        }
+      // Deep zoom sources are already cut to the viewport, so there is no wider scene to show
+      const context = isContextEnabled && !pyramid && currentNode
+        ? { lineage: describeLineage(getPath(currentNode.id)) }
+        : null
+      const onProgress = (progress: number, tiles?: TileProgress) => {
+        if (activeRequestIdRef.current !== requestId) return
+        setEnhancementState(prev => ({ ...prev, progress, tiles }))
+      }
+      const enhance = isTilingEnabled
+        ? enhancementService.enhanceImageTiled.bind(enhancementService)
+        : enhancementService.enhanceImageCrop.bind(enhancementService)
+      const generate = async (): Promise<string[]> => variantCount > 1
+        ? await enhancementService.enhanceImageVariants(
+          source.image, source.cropArea, prompt, context, requestId, variantCount, onProgress
+        )
+        : [await enhance(source.image, source.cropArea, prompt, context, requestId, onProgress)]
+
+      const sourceCrop = await cropSentFrame(source)
+      const measure = (outputs: string[]): Promise<MeasuredOutput[]> => Promise.all(
+        outputs.map(data => measureOutput(sourceCrop, data))
+      )
+      const hasDrifted = (metrics: FidelityMetrics) => (
+        fidelityThresholds !== null && findFidelityFailures(metrics, fidelityThresholds).length > 0
       )
 
-      const enhancedImage: EnhancedImage = {
-        id: cacheKey,
-        data: enhancedImageData,
-        zoomLevel,
-        viewport: {
-          x: cropArea.x,
-          y: cropArea.y,
-          width: cropArea.width,
-          height: cropArea.height
-        },
-        originalImageSrc: currentBaseImage,
-        createdAt: Date.now()
+      let results = await measure(await generate())
+      // A single result past the fidelity gate is set aside and requested again; variants go to the user instead
+      let drifted: MeasuredOutput[] = []
+      while (results.length === 1 && hasDrifted(results[0].metrics) && drifted.length < MAX_FIDELITY_RETRIES) {
+        if (activeRequestIdRef.current !== requestId) return
+        drifted.push(results[0])
+        setEnhancementState(prev => ({ ...prev, progress: 0, fidelityRetries: drifted.length }))
+        results = await measure(await generate())
+      }
+      if (drifted.length > 0 && hasDrifted(results[0].metrics)) {
+        // Every attempt drifted: keep the structurally closest one, which the UI flags
+        const [closest, ...others] = [...drifted, results[0]].sort((a, b) => b.metrics.ssim - a.metrics.ssim)
+        results = [closest]
+        drifted = others
       }
 
-      setCachedImage(enhancedImage)
-      
-      // Add enhanced image to history and fit to height
-      addToHistory(enhancedImageData)
-      setCurrentDisplayImage(enhancedImageData)
-      
-      // Wait for image to load then calculate fit-to-height zoom
-      setTimeout(() => {
-        const fitZoom = calculateFitToHeightZoom()
-        setZoomLevel(fitZoom)
-        setPanPosition({ x: 0, y: 0 })
-      }, 50)
-      
+      // The request may have been superseded or cancelled while the result was in flight
+      if (activeRequestIdRef.current !== requestId) {
+        return
+      }
+      activeRequestIdRef.current = null
+      setPromptOverride(null)
+
+      const createdAt = Date.now()
+      const toEnhancedImage = (result: MeasuredOutput, id: string): EnhancedImage => (
+        createEnhancedImage(id, result, target, zoomLevel, prompt, createdAt)
+      )
+      // Identical outputs (a deterministic provider returns nothing else) are one candidate, not several
+      const distinct = results.filter((result, index) => (
+        results.findIndex(other => other.digest === result.digest) === index
+      ))
+      // Every candidate is keyed by the request until one is picked
+      const candidates = distinct.map(result => toEnhancedImage(
+        result,
+        distinct.length > 1 ? `${cacheKey}_alt_${result.digest.slice(0, 12)}` : cacheKey
+      ))
+      // Drifted attempts stay inspectable but are never reused automatically
+      drifted.forEach(result => setCachedImage({
+        ...toEnhancedImage(result, `${cacheKey}_drift_${result.digest.slice(0, 12)}`),
+        rejected: true
+      }))
+      const origin: EnhancementOrigin = { viewport, zoomLevel, parentNodeId, model, prompt }
+
       setEnhancementState({
         isProcessing: false,
         error: null,
         progress: 100,
         lastProcessedZoom: zoomLevel
       })
-      setCurrentRequestId(null)
+
+      if (candidates.length > 1) {
+        // Wait for the user to choose in the comparison grid
+        setPendingVariants({ cacheKey, candidates, origin })
+        return
+      }
+
+      setCachedImage(candidates[0])
+      await applyEnhancedImage(candidates[0], origin)
 
     } catch (error) {
+      if (isEnhancementCancelled(error)) {
+        // Cancellation already reset the state; a stale request must not touch it
+        return
+      }
       console.error('Enhancement failed:', error)
-      setEnhancementState({
-        isProcessing: false,
-        error: null,
-        progress: 0,
-        lastProcessedZoom: 0
-      })
-      setCurrentRequestId(null)
+      activeRequestIdRef.current = null
+      setEnhancementState({ ...IDLE_ENHANCEMENT_STATE, error: toEnhancementErrorInfo(error) })
     }
-  }, [getCurrentBaseImage, panPosition, currentDisplayImage, enhancementState.isProcessing, getCachedImage, findSimilarCachedImage, setCachedImage, addToHistory, calculateFitToHeightZoom])
+  }, [pyramid, addPyramidLayer, isTilingEnabled, isMosaicActive, compositePatch, enhancementState.isProcessing, getCachedImage, findSimilarCachedImage, setCachedImage, currentNode, promptOverride, promptPresetId, isContextEnabled, getPath, variantCount, pendingVariants, applyEnhancedImage, fidelityThresholds, spendRequest, triggerSettings.confirmBeforeSpend, requestSpendConfirmation, renderEnhancementPrompt, cancelPrefetch])
+
+  // The picked candidate takes the request's cache key; the rest are kept as rejected
+  const handlePickVariant = async (index: number) => {
+    if (!pendingVariants) return
+    const { cacheKey, candidates, origin } = pendingVariants
+    setPendingVariants(null)
+
+    candidates.forEach((candidate, candidateIndex) => {
+      if (candidateIndex !== index) setCachedImage({ ...candidate, rejected: true })
+    })
+    const chosen = { ...candidates[index], id: cacheKey }
+    setCachedImage(chosen)
+    await applyEnhancedImage(chosen, origin)
+  }
+
+  const handleDiscardVariants = () => {
+    if (!pendingVariants) return
+    pendingVariants.candidates.forEach(candidate => setCachedImage({ ...candidate, rejected: true }))
+    setPendingVariants(null)
+  }
+
+  const checkAndEnhanceImage = useCallback(async (zoomLevel: number) => {
+    const currentBaseImage = getCurrentBaseImage()
+    const target = resolveEnhancementTarget(zoomLevel)
+    const { threshold } = triggerSettings
+    
+    if (!target || !shouldEnhanceImage(target.magnification, threshold)) {
+      if (!pyramid && !shouldEnhanceImage(zoomLevel, threshold) && currentDisplayImage !== currentBaseImage) {
+        setCurrentDisplayImage(currentBaseImage)
+      }
+      return
+    }
+
+    // Manual mode only enhances through "Enhance view" and region selection
+    if (triggerSettings.mode === 'manual') return
+
+    await runEnhancement(target, zoomLevel)
+  }, [getCurrentBaseImage, resolveEnhancementTarget, triggerSettings, pyramid, currentDisplayImage, runEnhancement])
+
+  // Enhance the current view right away, whatever the magnification
+  const handleEnhanceNow = async () => {
+    const target = resolveEnhancementTarget(zoomLevel)
+    if (target) {
+      await runEnhancement(target, zoomLevel)
+    }
+  }
+
+  // Enhance a region drawn over the current layer, whatever the zoom level
+  const handleEnhanceRegion = async (cropArea: CropArea, instruction: string) => {
+    setIsSelectingRegion(false)
+    const baseImage = getCurrentBaseImage()
+    const zoomLevel = regionZoomLevel(cropArea)
+    await runEnhancement({
+      sourceDigest: getCurrentBaseDigest(),
+      viewport: cropArea,
+      magnification: zoomLevel,
+      loadSource: async () => ({ image: baseImage, cropArea })
+    }, zoomLevel, instruction)
+  }
 
   const handleZoomChange = useCallback((newZoomLevel: number) => {
     if (enhancementTimeoutRef.current) {
@@ -361,32 +832,124 @@ function App() {
 
     enhancementTimeoutRef.current = setTimeout(() => {
       checkAndEnhanceImage(newZoomLevel)
-    }, 500)
-  }, [checkAndEnhanceImage])
+    }, triggerSettings.mode === 'idle' ? triggerSettings.idleDelayMs : 500)
+  }, [checkAndEnhanceImage, triggerSettings])
 
-  const handleCancelEnhancement = useCallback(() => {
-    if (currentRequestId) {
-      geminiService.cancelRequest(currentRequestId)
-      setCurrentRequestId(null)
+  // Idle and prefetch modes wait for the whole view to settle, so panning restarts the countdown too.
+  // The latest handler is read through a ref so a new render alone never schedules a check.
+  const handleZoomChangeRef = useRef(handleZoomChange)
+  useEffect(() => {
+    handleZoomChangeRef.current = handleZoomChange
+  })
+  useEffect(() => {
+    if (triggerSettings.mode === 'idle' || triggerSettings.mode === 'prefetch') {
+      handleZoomChangeRef.current(viewRef.current.zoomLevel)
     }
-    setEnhancementState({
-      isProcessing: false,
-      error: null,
-      progress: 0,
-      lastProcessedZoom: 0
-    })
-  }, [currentRequestId])
+  }, [panPosition, triggerSettings.mode])
+
+  // Queue speculative enhancements of where the view is likely to go next, most likely first
+  const lastSettledViewRef = useRef<ViewState | null>(null)
+  const schedulePrefetch = useCallback(() => {
+    const view = viewRef.current
+    const lastSettled = lastSettledViewRef.current
+    lastSettledViewRef.current = view
+    const provider = enhancementService.getActiveProvider()
+    // A one-shot prompt is meant for the next request only, and paid calls nobody approved are not made
+    if (!viewLayout || promptOverride !== null || (triggerSettings.confirmBeforeSpend && provider.billable)) {
+      cancelPrefetch()
+      return
+    }
+
+    // Only a pan at a steady zoom says which way the user is heading
+    const panDirection = lastSettled && lastSettled.zoomLevel === view.zoomLevel
+      ? { x: view.panPosition.x - lastSettled.panPosition.x, y: view.panPosition.y - lastSettled.panPosition.y }
+      : null
+    const template = promptLibrary.getPreset(promptPresetId)?.template ?? ''
+    const context = isContextEnabled && !pyramid && currentNode
+      ? { lineage: describeLineage(getPath(currentNode.id)) }
+      : null
+
+    const candidates: PrefetchCandidate[] = []
+    for (const predicted of predictNextViews(viewLayout, view, panDirection, zoomLimits, { ...DEFAULT_PREDICTION_OPTIONS, zoomStep: ZOOM_STEP })) {
+      const target = resolveEnhancementTarget(predicted.zoomLevel, predicted.panPosition)
+      // Views the trigger would not enhance on arrival are not worth paying for in advance
+      if (!target || !shouldEnhanceImage(target.magnification, triggerSettings.threshold)) continue
+
+      const prompt = renderEnhancementPrompt(template, predicted.zoomLevel)
+      const key = cacheKeyFor(target, predicted.zoomLevel, prompt)
+      if (getCachedImage(key) || findSimilarCachedImage(target.sourceDigest, target.viewport, predicted.zoomLevel, { prompt })) {
+        continue
+      }
+
+      candidates.push({
+        key,
+        run: async requestId => {
+          const source = await target.loadSource()
+          const data = await enhancementService.enhanceImageCrop(source.image, source.cropArea, prompt, context, requestId)
+          const result = await measureOutput(await cropSentFrame(source), data)
+          const drifted = fidelityThresholds !== null && findFidelityFailures(result.metrics, fidelityThresholds).length > 0
+          // Stored like a foreground result, so arriving at the view reuses it; drifted ones never are
+          const image = createEnhancedImage(key, result, target, predicted.zoomLevel, prompt, Date.now())
+          setCachedImage(drifted ? { ...image, id: `${key}_drift_${result.digest.slice(0, 12)}`, rejected: true } : image)
+        }
+      })
+    }
+    schedulePrefetchJobs(candidates)
+  }, [viewLayout, promptOverride, triggerSettings, cancelPrefetch, promptPresetId, isContextEnabled, pyramid, currentNode, getPath, zoomLimits, resolveEnhancementTarget, renderEnhancementPrompt, getCachedImage, findSimilarCachedImage, fidelityThresholds, setCachedImage, schedulePrefetchJobs])
+
+  // Prefetch once the view and any enhancement the user is waiting on have settled
+  const schedulePrefetchRef = useRef(schedulePrefetch)
+  useEffect(() => {
+    schedulePrefetchRef.current = schedulePrefetch
+  })
+  const isForegroundBusy = enhancementState.isProcessing || !!pendingVariants || !!spendRequest
+  useEffect(() => {
+    if (triggerSettings.mode !== 'prefetch') {
+      cancelPrefetch()
+      return
+    }
+    if (isForegroundBusy || !originalImageSrc) return
+
+    const timeout = setTimeout(() => schedulePrefetchRef.current(), PREFETCH_SETTLE_MS)
+    return () => clearTimeout(timeout)
+  }, [zoomLevel, panPosition, triggerSettings.mode, isForegroundBusy, originalImageSrc, cancelPrefetch])
+
+  // Each image gets a fresh prefetch budget
+  useEffect(() => {
+    resetPrefetch()
+    lastSettledViewRef.current = null
+  }, [originalImageSrc, resetPrefetch])
+
+  const handleTriggerSettingsChange = (changes: Partial<EnhancementTriggerSettings>) => {
+    setTriggerSettings(triggerSettingsStore.update(changes))
+  }
+
+  const handleCancelEnhancement = useCallback(() => {
+    abandonPendingWork()
+    cancelActiveRequest()
+    setEnhancementState(IDLE_ENHANCEMENT_STATE)
+  }, [abandonPendingWork, cancelActiveRequest])
 
   useEffect(() => {
     return () => {
       if (enhancementTimeoutRef.current) {
         clearTimeout(enhancementTimeoutRef.current)
       }
-      if (currentRequestId) {
-        geminiService.cancelRequest(currentRequestId)
-      }
+      cancelActiveRequest()
     }
-  }, [currentRequestId])
+  }, [cancelActiveRequest])
+
+  // Track the viewfinder's size; it follows the aspect ratio and the window
+  useEffect(() => {
+    const container = zoomContainerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(() => {
+      setViewportSize({ width: container.clientWidth, height: container.clientHeight })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [originalImageSrc])
 
   useEffect(() => {
     const currentBase = getCurrentBaseImage()
@@ -395,27 +958,242 @@ function App() {
     }
   }, [getCurrentBaseImage, currentDisplayImage])
 
-  // Update display image when history index changes
+  // Pull enhancements stored in earlier sessions for whichever layer is now the base
+  const currentBaseDigest = getCurrentBaseDigest()
+  useEffect(() => {
+    if (currentBaseDigest) {
+      hydrateFromPersistent(currentBaseDigest)
+    }
+  }, [currentBaseDigest, hydrateFromPersistent])
+
+  // Update display image when the current tree node changes
   useEffect(() => {
     const currentBase = getCurrentBaseImage()
     if (currentBase) {
       setCurrentDisplayImage(currentBase)
     }
-  }, [currentHistoryIndex, getCurrentBaseImage])
+  }, [currentNode, getCurrentBaseImage])
+
+  const handleToggleMosaic = async () => {
+    if (isMosaicActive) {
+      stopMosaic()
+      return
+    }
+    stopPyramid()
+    // Start from whichever layer is in view; zoom and pan carry over unchanged
+    await startMosaic(getCurrentBaseImage())
+  }
+
+  const handleToggleDeepZoom = async () => {
+    if (pyramid) {
+      stopPyramid()
+      return
+    }
+    setIsSelectingRegion(false)
+    // Seed the pyramid with whatever is in view (a history layer or the mosaic)
+    await startPyramid(getCurrentBaseImage(), getCurrentBaseDigest())
+    stopMosaic()
+  }
+
+  const handleSaveMosaicAsLayer = async () => {
+    const mosaicData = exportMosaic()
+    if (!mosaicData) return
+    const digest = await computeImageDigest(mosaicData)
+    stopMosaic()
+    if (currentNode) {
+      // The mosaic covers the whole of the node it was started from
+      addChild(currentNode.id, mosaicData, digest, null, zoomLevel, null, null)
+    }
+  }
+
+  // The source crop is recovered from the parent layer at its native resolution; the
+  // comparison view stretches it over the enhanced image, as the viewfinder would
+  const handleOpenComparison = async () => {
+    if (!currentNode?.parentId) return
+    const parent = explorationTree.nodes[currentNode.parentId]
+    if (!parent) return
+    const before = currentNode.cropArea
+      ? await cropNormalizedRegion(
+        parent.image,
+        normalizeViewport(currentNode.cropArea, currentNode.cropArea.sourceWidth, currentNode.cropArea.sourceHeight)
+      )
+      : parent.image // a saved mosaic covers all of its parent
+    setComparison({ nodeId: currentNode.id, before, after: currentNode.image })
+  }
+
+  const handleProviderChange = (id: string) => {
+    enhancementService.setActiveProvider(id)
+    setProviderId(id)
+  }
+
+  const handleSelectPromptPreset = (id: string) => {
+    promptLibrary.setDefaultPresetId(id)
+    setPromptPresetId(id)
+  }
+
+  const handleExportSession = () => {
+    try {
+      sessionArchiveService.downloadArchive({
+        tree: explorationTree,
+        cache: Object.values(cache),
+        aspectRatio: selectedRatio.label,
+        providerId,
+        promptPresetId,
+        view: { zoomLevel, panPosition },
+        exportedAt: Date.now()
+      })
+      setSessionError(null)
+    } catch (error) {
+      setSessionError(error instanceof Error ? error.message : 'Failed to export session')
+    }
+  }
+
+  const handleImportSession = async (file: File) => {
+    try {
+      const session = await sessionArchiveService.readArchive(file)
+
+      abandonPendingWork()
+      cancelActiveRequest()
+      stopMosaic()
+      stopPyramid()
+      setPendingVariants(null)
+      clearCache()
+      restoreTree(session.tree)
+      session.cache.forEach(setCachedImage)
+      setSelectedRatio(aspectRatios.find(ratio => ratio.label === session.aspectRatio) ?? aspectRatios[1])
+      // Keep the current enhancer if the one used for the session is not set up here
+      if (enhancementService.getProviders().some(provider => provider.id === session.providerId && provider.isAvailable())) {
+        handleProviderChange(session.providerId)
+      }
+      if (session.promptPresetId && promptLibrary.getPreset(session.promptPresetId)) {
+        handleSelectPromptPreset(session.promptPresetId)
+      }
+      setPromptOverride(null)
+      setCurrentDisplayImage(session.tree.currentId ? session.tree.nodes[session.tree.currentId].image : '')
+      setZoomLevel(session.view.zoomLevel)
+      setPanPosition(session.view.panPosition)
+      setEnhancementState(IDLE_ENHANCEMENT_STATE)
+      setSessionError(null)
+    } catch (error) {
+      setSessionError(error instanceof Error ? error.message : 'Failed to open session')
+    }
+  }
+
+  const handleSessionInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      handleImportSession(file)
+    }
+    // Allow opening the same file again
+    e.target.value = ''
+  }
+
+  // Where the viewfinder sits on the base layer, in the same terms as the crop sent for enhancement
+  const getViewRegion = (): NormalizedRegion | null => {
+    if (!viewLayout || !viewMatrix) return null
+    return normalizeViewport(getVisibleWorldRect(viewMatrix, viewLayout), viewLayout.contentWidth, viewLayout.contentHeight)
+  }
+
+  const getMinimapMarkers = () => {
+    const digest = pyramid ? pyramidBaseDigest : getCurrentBaseDigest()
+    const cachedRegions = Object.values(cache)
+      .filter(image => image.sourceDigest === digest && !image.rejected)
+      .map(image => normalizeViewport(image.viewport, image.sourceWidth, image.sourceHeight))
+    const childRegions = currentNode
+      ? getChildren(currentNode.id).flatMap(child => (
+        child.cropArea ? [normalizeViewport(child.cropArea, child.cropArea.sourceWidth, child.cropArea.sourceHeight)] : []
+      ))
+      : []
+    return { cachedRegions, childRegions }
+  }
+
+  // Pan so that `center` (fractions of the base layer) sits in the middle of the viewfinder
+  const handleMinimapNavigate = (center: { x: number; y: number }) => {
+    if (!viewLayout) return
+    applyView(centerOn(viewLayout, viewRef.current, {
+      x: center.x * viewLayout.contentWidth,
+      y: center.y * viewLayout.contentHeight
+    }))
+  }
+
+  const handleDisplayImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget
+    setDisplaySize({ width: naturalWidth, height: naturalHeight })
+    if (!fitOnLoadRef.current || pyramid || !viewportSize.width || !viewportSize.height) return
+
+    // Newly enhanced layers open fitted to the viewfinder's height
+    fitOnLoadRef.current = false
+    const fitZoom = getFitToHeightZoom({
+      viewportWidth: viewportSize.width,
+      viewportHeight: viewportSize.height,
+      contentWidth: naturalWidth,
+      contentHeight: naturalHeight
+    })
+    applyView({ zoomLevel: Math.min(Math.max(fitZoom, zoomLimits.min), zoomLimits.max), panPosition: { x: 0, y: 0 } })
+  }
+
+  // Arrow keys move the view a tenth of the viewfinder at a time
+  const panByKeyboard = (directionX: number, directionY: number) => {
+    if (!viewLayout) return
+    applyView(panBy(
+      viewLayout,
+      viewRef.current,
+      -directionX * viewLayout.viewportWidth * 0.1,
+      -directionY * viewLayout.viewportHeight * 0.1
+    ))
+  }
+
+  const handleToggleComparison = () => {
+    if (comparison && comparison.nodeId === currentNode?.id) {
+      setComparison(null)
+    } else {
+      handleOpenComparison()
+    }
+  }
 
+  useKeyboardShortcuts(shortcutBindings, {
+    zoomIn: handleZoomIn,
+    zoomOut: handleZoomOut,
+    resetZoom: handleResetZoom,
+    panLeft: () => panByKeyboard(-1, 0),
+    panRight: () => panByKeyboard(1, 0),
+    panUp: () => panByKeyboard(0, -1),
+    panDown: () => panByKeyboard(0, 1),
+    previousLayer: goToPreviousImage,
+    nextLayer: goToNextImage,
+    enhanceNow: handleEnhanceNow,
+    cancelEnhancement: () => {
+      if (enhancementState.isProcessing) handleCancelEnhancement()
+    },
+    toggleComparison: handleToggleComparison,
+    exportDive: () => setIsDiveExportOpen(open => !open),
+    showShortcuts: () => setIsShortcutHelpOpen(true)
+  }, Boolean(originalImageSrc) && !isShortcutHelpOpen)
+
+  const handleRemapShortcut = useCallback((action: ShortcutAction, combo: string) => {
+    setShortcutBindings(shortcutRegistry.setBinding(action, combo))
+  }, [])
+
+  const handleCloseShortcutHelp = useCallback(() => {
+    setIsShortcutHelpOpen(false)
+  }, [])
+
+  // Zoom towards whatever is under the cursor
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault()
-    const delta = e.deltaY > 0 ? 0.9 : 1.1
-    setZoomLevel(prev => {
-      const newZoom = Math.max(0.1, Math.min(prev * delta, 10))
-      handleZoomChange(newZoom)
-      return newZoom
-    })
+    zoomAround(e.deltaY > 0 ? 0.9 : 1.1, toViewportPoint(e.clientX, e.clientY))
   }
 
 
   return (
     <div className="app">
+      <input
+        ref={sessionInputRef}
+        type="file"
+        accept={`${SESSION_FILE_EXTENSION},application/json`}
+        onChange={handleSessionInputChange}
+        className="file-input-hidden"
+      />
       {!originalImageSrc ? (
         <div className="home-page">
           <h1 className="app-title">🍌 Banana Scope 🔭</h1>
@@ -444,35 +1222,76 @@ function App() {
               className="file-input-hidden"
             />
           </div>
+
+          <button
+            onClick={() => sessionInputRef.current?.click()}
+            className="back-button session-open-button"
+            title={`Resume an exploration saved as ${SESSION_FILE_EXTENSION}`}
+          >
+            📂 Open Saved Session
+          </button>
+          {sessionError && <p className="error-info">⚠️ {sessionError}</p>}
         </div>
       ) : (
         <div className="image-view">
           <div className="header">
             <h1>🍌 Banana Scope 🔭</h1>
-            <button 
-              onClick={() => {
-                setOriginalImageSrc('')
-                setCurrentDisplayImage('')
-                setImageHistory([])
-                setCurrentHistoryIndex(-1)
-                setZoomLevel(1)
-                setPanPosition({ x: 0, y: 0 })
-                clearCache()
-                if (currentRequestId) {
-                  geminiService.cancelRequest(currentRequestId)
-                  setCurrentRequestId(null)
-                }
-                setEnhancementState({
-                  isProcessing: false,
-                  error: null,
-                  progress: 0,
-                  lastProcessedZoom: 0
-                })
-              }}
-              className="back-button"
-            >
-              ← Back to Upload
-            </button>
+            <div className="header-actions">
+              <button
+                onClick={() => setIsCacheInspectorOpen(open => !open)}
+                className="back-button"
+                title="List, inspect and purge enhancements stored in this browser"
+              >
+                🗄️ Stored Enhancements
+              </button>
+              <button
+                onClick={() => setIsDiveExportOpen(open => !open)}
+                className="back-button"
+                title="Render the zoom from the original down to the current layer as a video or animated image"
+              >
+                🎬 Export Dive
+              </button>
+              <button
+                onClick={() => setIsShortcutHelpOpen(true)}
+                className="back-button"
+                title="List and remap keyboard shortcuts (?)"
+              >
+                ⌨️ Shortcuts
+              </button>
+              <button
+                onClick={handleExportSession}
+                className="back-button"
+                title="Download the whole exploration (images, lineage, cache and settings) as one file"
+              >
+                💾 Save Session
+              </button>
+              <button
+                onClick={() => sessionInputRef.current?.click()}
+                className="back-button"
+                title="Replace this exploration with one saved earlier"
+              >
+                📂 Open Session
+              </button>
+              <button 
+                onClick={() => {
+                  clearTree()
+                  setCurrentDisplayImage('')
+                  setSessionError(null)
+                  setZoomLevel(1)
+                  setPanPosition({ x: 0, y: 0 })
+                  clearCache()
+                  abandonPendingWork()
+                  cancelActiveRequest()
+                  stopMosaic()
+                  stopPyramid()
+                  setPendingVariants(null)
+                  setEnhancementState(IDLE_ENHANCEMENT_STATE)
+                }}
+                className="back-button"
+              >
+                ← Back to Upload
+              </button>
+            </div>
           </div>
 
           <div className="main-content">
@@ -484,12 +1303,19 @@ function App() {
                     🔍-
                   </button>
                   <span className="zoom-level">{Math.round(zoomLevel * 100)}%</span>
-                  <button onClick={handleZoomIn} className="zoom-button" disabled={zoomLevel >= 10 || isTransitioning}>
+                  <button onClick={handleZoomIn} className="zoom-button" disabled={zoomLevel >= maxZoom || isTransitioning}>
                     🔍+
                   </button>
                   <button onClick={handleResetZoom} className="reset-button" disabled={isTransitioning}>
                     Reset
                   </button>
+                  <button
+                    onClick={() => setIsMinimapEnabled(enabled => !enabled)}
+                    className={`reset-button ${isMinimapEnabled ? 'active' : ''}`}
+                    title="Show where the viewfinder is on the current layer while zoomed in"
+                  >
+                    🗺️
+                  </button>
                 </div>
                 
                 <div className="ratio-controls">
@@ -508,29 +1334,161 @@ function App() {
                   </div>
                 </div>
                 
-                {imageHistory.length > 0 && (
-                  <div className="history-controls">
-                    <button 
-                      onClick={goToPreviousImage} 
-                      className="history-button" 
-                      disabled={currentHistoryIndex <= -1 || isTransitioning}
-                      title="Go to previous focus layer"
+                <div className="provider-controls">
+                  <span className="ratio-label">Enhancer:</span>
+                  <div className="ratio-buttons">
+                    {enhancementService.getProviders().map((provider) => (
+                      <button
+                        key={provider.id}
+                        onClick={() => handleProviderChange(provider.id)}
+                        className={`ratio-button ${providerId === provider.id ? 'active' : ''}`}
+                        disabled={!provider.isAvailable() || enhancementState.isProcessing}
+                        title={provider.isAvailable() ? `Enhance with ${provider.model}` : `${provider.label} is not configured`}
+                      >
+                        {provider.label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setIsSelectingRegion(selecting => !selecting)}
+                      className={`ratio-button ${isSelectingRegion ? 'active' : ''}`}
+                      disabled={enhancementState.isProcessing || !!pyramid}
+                      title="Draw a rectangle over the current layer and enhance exactly that region"
                     >
-                      ← Previous
+                      Select region
                     </button>
-                    <span className="history-info">
-                      {currentHistoryIndex === -1 ? 'Original View' : `Focus Layer ${currentHistoryIndex + 1}`}
-                      {imageHistory.length > 0 && ` / ${imageHistory.length} depth layers`}
-                    </span>
-                    <button 
-                      onClick={goToNextImage} 
-                      className="history-button" 
-                      disabled={currentHistoryIndex >= imageHistory.length - 1 || isTransitioning}
-                      title="Go to next focus layer"
+                    <label className="toolbar-select" title="Request several candidates for each enhancement and choose one in a comparison grid">
+                      Variants
+                      <select
+                        value={variantCount}
+                        onChange={e => setVariantCount(Number(e.target.value))}
+                        disabled={enhancementState.isProcessing}
+                      >
+                        {VARIANT_COUNTS.map(count => (
+                          <option key={count} value={count}>{count}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="toolbar-select" title="Automatically retry enhancements that drift too far from the crop they were made from">
+                      Fidelity gate
+                      <select
+                        value={fidelityGateId}
+                        onChange={e => setFidelityGateId(e.target.value)}
+                        disabled={enhancementState.isProcessing}
+                      >
+                        {FIDELITY_GATES.map(gate => (
+                          <option key={gate.id} value={gate.id}>{gate.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <button
+                      onClick={() => setIsTilingEnabled(enabled => !enabled)}
+                      className={`ratio-button ${isTilingEnabled ? 'active' : ''}`}
+                      disabled={enhancementState.isProcessing}
+                      title="Split large views into overlapping tiles for a higher-resolution result"
                     >
-                      Next →
+                      Tiled
                     </button>
+                    <button
+                      onClick={() => setIsContextEnabled(enabled => !enabled)}
+                      className={`ratio-button ${isContextEnabled ? 'active' : ''}`}
+                      disabled={enhancementState.isProcessing || !!pyramid}
+                      title="Also send a downscaled copy of the whole layer with the crop outlined, plus a summary of earlier layers, so enhancements stay consistent with the wider scene"
+                    >
+                      Context
+                    </button>
+                    <button
+                      onClick={handleToggleMosaic}
+                      className={`ratio-button ${isMosaicActive ? 'active' : ''}`}
+                      disabled={enhancementState.isProcessing}
+                      title="Paint enhancements back into the full image instead of replacing the view"
+                    >
+                      Mosaic
+                    </button>
+                    <button
+                      onClick={handleToggleDeepZoom}
+                      className={`ratio-button ${pyramid ? 'active' : ''}`}
+                      disabled={enhancementState.isProcessing}
+                      title="Render from a multi-resolution tile pyramid; enhancements add deeper levels and zoom continues without resetting"
+                    >
+                      Deep zoom
+                    </button>
+                    {isMosaicActive && (
+                      <button
+                        onClick={handleSaveMosaicAsLayer}
+                        className="ratio-button"
+                        disabled={enhancementState.isProcessing || mosaicPatchCount === 0}
+                        title="Add the current mosaic to the focus layer history"
+                      >
+                        Save as layer
+                      </button>
+                    )}
                   </div>
+                </div>
+
+                <TriggerControls
+                  settings={triggerSettings}
+                  onChange={handleTriggerSettingsChange}
+                  onEnhanceNow={handleEnhanceNow}
+                  prefetchSpent={prefetchSpent}
+                  isPrefetching={isPrefetching}
+                  disabled={enhancementState.isProcessing || !!pendingVariants || !!spendRequest}
+                />
+
+                <PromptControls
+                  selectedPresetId={promptPresetId}
+                  onSelectPreset={handleSelectPromptPreset}
+                  override={promptOverride}
+                  onOverrideChange={setPromptOverride}
+                  disabled={enhancementState.isProcessing}
+                />
+                
+                {rootNode && currentNode && explorationNodeCount > 1 && (
+                  <>
+                    <div className="history-controls">
+                      <button 
+                        onClick={goToPreviousImage} 
+                        className="history-button" 
+                        disabled={!previousNodeId || isTransitioning}
+                        title="Go up to the layer this one was enhanced from"
+                      >
+                        ← Previous
+                      </button>
+                      <span className="history-info">
+                        {currentNode.depth === 0 ? 'Original View' : `Focus Layer ${currentNode.depth}`}
+                        {` / ${explorationNodeCount - 1} ${explorationNodeCount === 2 ? 'layer' : 'layers'}`}
+                      </span>
+                      <button 
+                        onClick={goToNextImage} 
+                        className="history-button" 
+                        disabled={!nextNodeId || isTransitioning}
+                        title="Go down the branch you last explored from here"
+                      >
+                        Next →
+                      </button>
+                      {currentNode.depth > 0 && (
+                        <button
+                          onClick={handleOpenComparison}
+                          className="history-button"
+                          disabled={isTransitioning}
+                          title="Compare this layer with the crop it was enhanced from"
+                        >
+                          Compare
+                        </button>
+                      )}
+                    </div>
+                    {currentNode.metrics && (
+                      <FidelityReadout metrics={currentNode.metrics} thresholds={fidelityThresholds} />
+                    )}
+                    <ExplorationNavigator
+                      root={rootNode}
+                      currentId={currentNode.id}
+                      nodeCount={explorationNodeCount}
+                      getPath={getPath}
+                      getChildren={getChildren}
+                      onSelect={goToNode}
+                      disabled={isTransitioning}
+                    />
+                  </>
                 )}
               </div>
               
@@ -542,6 +1500,10 @@ function App() {
                 onMouseUp={handleMouseUp}
                 onMouseLeave={handleMouseUp}
                 onWheel={handleWheel}
+                onPointerDown={gestureHandlers.onPointerDown}
+                onPointerMove={gestureHandlers.onPointerMove}
+                onPointerUp={gestureHandlers.onPointerUp}
+                onPointerCancel={gestureHandlers.onPointerCancel}
                 style={{ 
                   position: 'relative',
                   aspectRatio: selectedRatio.value
@@ -551,7 +1513,9 @@ function App() {
                   ref={wrapperRef}
                   className="zoom-image-wrapper"
                   style={{
-                    transform: `scale(${zoomLevel}) translate(${panPosition.x / zoomLevel}px, ${panPosition.y / zoomLevel}px)`,
+                    transform: viewMatrix
+                      ? `translate(${viewMatrix.offsetX}px, ${viewMatrix.offsetY}px) scale(${viewMatrix.scale})`
+                      : undefined,
                     cursor: zoomLevel > 1 ? (isPanning ? 'grabbing' : 'grab') : 'default'
                   }}
                 >
@@ -559,31 +1523,122 @@ function App() {
                     ref={imageRef}
                     src={currentDisplayImage || getCurrentBaseImage()}
                     alt="Zoom view"
-                    className={`zoom-image ${enhancementState.isProcessing ? 'blurred' : ''}`}
+                    className="zoom-image"
+                    onLoad={handleDisplayImageLoad}
+                    style={{
+                      // Until measured there is no transform to place it with
+                      visibility: pyramid || !viewMatrix ? 'hidden' : undefined,
+                      // The image is drawn at natural size and scaled, so scale the blur back to screen pixels
+                      filter: enhancementState.isProcessing && viewMatrix ? `blur(${4 / viewMatrix.scale}px)` : undefined
+                    }}
                     draggable={false}
                   />
                 </div>
+                {pyramid && (
+                  <PyramidViewer
+                    pyramid={pyramid}
+                    version={pyramidVersion}
+                    zoomLevel={zoomLevel}
+                    panPosition={panPosition}
+                    isBlurred={enhancementState.isProcessing}
+                  />
+                )}
+                {isMinimapEnabled && zoomLevel > 1 && (
+                  <Minimap
+                    imageSrc={getCurrentBaseImage()}
+                    viewRegion={getViewRegion()}
+                    {...getMinimapMarkers()}
+                    onNavigate={handleMinimapNavigate}
+                  />
+                )}
+                {spendRequest && (
+                  <SpendConfirmation
+                    providerLabel={spendRequest.providerLabel}
+                    requestCount={spendRequest.requestCount}
+                    maxRequestCount={spendRequest.maxRequestCount}
+                    onConfirm={() => handleSpendDecision(true)}
+                    onDecline={() => handleSpendDecision(false)}
+                  />
+                )}
+                {pendingVariants && (
+                  <VariantPicker
+                    candidates={pendingVariants.candidates}
+                    thresholds={fidelityThresholds}
+                    onPick={handlePickVariant}
+                    onDiscard={handleDiscardVariants}
+                  />
+                )}
+                {comparison && comparison.nodeId === currentNode?.id && (
+                  <ComparisonView
+                    before={comparison.before}
+                    after={comparison.after}
+                    onClose={() => setComparison(null)}
+                  />
+                )}
+                {isSelectingRegion && (
+                  <RegionSelector
+                    imageSrc={getCurrentBaseImage()}
+                    viewfinderAspectRatio={selectedRatio.width / selectedRatio.height}
+                    onConfirm={handleEnhanceRegion}
+                    onCancel={() => setIsSelectingRegion(false)}
+                  />
+                )}
                 <LoadingOverlay
                   isVisible={enhancementState.isProcessing}
                   progress={enhancementState.progress}
-                  message="Adjusting telescope lenses..."
+                  message={enhancementState.fidelityRetries
+                    ? `Result drifted from the source, refocusing (retry ${enhancementState.fidelityRetries}/${MAX_FIDELITY_RETRIES})`
+                    : enhancementState.tiles
+                      ? `Adjusting telescope lenses (tile ${enhancementState.tiles.completed}/${enhancementState.tiles.total})`
+                      : 'Adjusting telescope lenses...'}
                   onCancel={handleCancelEnhancement}
                 />
               </div>
               
               <div className="zoom-info">
                 <p>Scroll to adjust magnification, drag to explore when zoomed</p>
-                {zoomLevel > 3.0 && (
+                {triggerSettings.mode !== 'manual' && shouldEnhanceImage(zoomLevel, triggerSettings.threshold) && (
                   <p className="enhancement-info">
                     🔭 Focusing deep space optics at {Math.round(zoomLevel * 100)}% magnification
                   </p>
                 )}
+                {pyramid && (
+                  <p className="enhancement-info">
+                    🗺️ Deep zoom: {pyramid.layerCount} pyramid {pyramid.layerCount === 1 ? 'layer' : 'layers'}, up to {pyramid.getMaxDensity().toFixed(1)}× the base resolution
+                  </p>
+                )}
+                {isMosaicActive && (
+                  <p className="enhancement-info">
+                    🧩 Mosaic mode: {mosaicPatchCount} enhanced {mosaicPatchCount === 1 ? 'patch' : 'patches'} painted in place
+                  </p>
+                )}
+                {sessionError && <p className="error-info">⚠️ {sessionError}</p>}
                 {enhancementState.error && (
                   <p className="error-info">
-                    ⚠️ Lens calibration failed: {enhancementState.error}
+                    ⚠️ Lens calibration failed: {enhancementState.error.message}
+                    {enhancementState.error.attempts > 1 && ` (after ${enhancementState.error.attempts} attempts)`}
+                    <br />
+                    <span className="error-hint">{errorHints[enhancementState.error.kind]}</span>
                   </p>
                 )}
               </div>
+
+              <CacheInspector
+                isOpen={isCacheInspectorOpen}
+                onClose={() => setIsCacheInspectorOpen(false)}
+              />
+              <DiveExportPanel
+                isOpen={isDiveExportOpen}
+                onClose={() => setIsDiveExportOpen(false)}
+                path={currentNode ? getPath(currentNode.id) : []}
+              />
+              <ShortcutHelp
+                isOpen={isShortcutHelpOpen}
+                onClose={handleCloseShortcutHelp}
+                bindings={shortcutBindings}
+                onRemap={handleRemapShortcut}
+                onReset={() => setShortcutBindings(shortcutRegistry.resetBindings())}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { persistentImageCache } from '../services/persistentCache';
+import type { EnhancedImage, PersistentCacheEntry } from '../types/enhancement';
+import { FidelityReadout } from './FidelityReadout';
+import './CacheInspector.css';
+
+interface CacheInspectorProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const CacheInspector: React.FC<CacheInspectorProps> = ({ isOpen, onClose }) => {
+  const [entries, setEntries] = useState<PersistentCacheEntry[]>([]);
+  const [inspected, setInspected] = useState<EnhancedImage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await persistentImageCache.list());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read cache');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    } else {
+      setInspected(null);
+    }
+  }, [isOpen, refresh]);
+
+  const handleInspect = async (key: string) => {
+    setInspected(await persistentImageCache.get(key));
+    await refresh();
+  };
+
+  const handleRemove = async (key: string) => {
+    await persistentImageCache.remove(key);
+    if (inspected?.id === key) {
+      setInspected(null);
+    }
+    await refresh();
+  };
+
+  const handlePurge = async () => {
+    await persistentImageCache.purge();
+    setInspected(null);
+    await refresh();
+  };
+
+  if (!isOpen) return null;
+
+  const totalBytes = entries.reduce((total, entry) => total + entry.byteSize, 0);
+  const maxBytes = persistentImageCache.getMaxBytes();
+
+  return (
+    <div className="cache-inspector">
+      <div className="cache-inspector-header">
+        <h3>Stored Enhancements</h3>
+        <button className="cache-inspector-close" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="cache-usage">
+        <div className="cache-usage-bar">
+          <div
+            className="cache-usage-fill"
+            style={{ width: `${Math.min(100, (totalBytes / maxBytes) * 100)}%` }}
+          />
+        </div>
+        <span>
+          {entries.length} entries · {formatBytes(totalBytes)} of {formatBytes(maxBytes)}
+        </span>
+      </div>
+
+      {error && <p className="error-info">⚠️ {error}</p>}
+
+      {entries.length === 0 ? (
+        <p className="cache-empty">Nothing stored yet.</p>
+      ) : (
+        <ul className="cache-entry-list">
+          {entries.map(entry => (
+            <li key={entry.key} className="cache-entry">
+              <div className="cache-entry-details">
+                <strong>{Math.round(entry.zoomLevel * 100)}%{entry.rejected && ' · rejected variant'}</strong>
+                <span>
+                  {entry.viewport.width}×{entry.viewport.height} at ({entry.viewport.x}, {entry.viewport.y})
+                </span>
+                <span title={entry.sourceDigest}>source {entry.sourceDigest.slice(0, 8)}</span>
+                <span>{formatBytes(entry.byteSize)} · used {new Date(entry.lastAccessedAt).toLocaleString()}</span>
+              </div>
+              <div className="cache-entry-actions">
+                <button className="ratio-button" onClick={() => handleInspect(entry.key)}>Inspect</button>
+                <button className="ratio-button" onClick={() => handleRemove(entry.key)}>Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {inspected && (
+        <div className="cache-preview">
+          <img src={inspected.data} alt="Stored enhancement" />
+          <span>Created {new Date(inspected.createdAt).toLocaleString()}</span>
+          {inspected.prompt && <span className="cache-preview-prompt">Prompt: {inspected.prompt}</span>}
+          {inspected.metrics && <FidelityReadout metrics={inspected.metrics} />}
+        </div>
+      )}
+
+      <button className="cache-purge-button" onClick={handlePurge} disabled={entries.length === 0}>
+        Purge all stored enhancements
+      </button>
+    </div>
+  );
+};
+
+export default CacheInspector;
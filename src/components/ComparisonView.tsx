@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { computeDifferenceHeatmap } from '../utils/imageCompare';
+import { ViewfinderOverlay } from './ViewfinderOverlay';
+import './ComparisonView.css';
+
+type ComparisonMode = 'slider' | 'toggle' | 'difference';
+
+interface ComparisonViewProps {
+  before: string; // source crop, at its native resolution
+  after: string; // enhanced image
+  onClose: () => void;
+}
+
+const modes: { id: ComparisonMode; label: string }[] = [
+  { id: 'slider', label: 'Split' },
+  { id: 'toggle', label: 'Toggle' },
+  { id: 'difference', label: 'Difference' }
+];
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ before, after, onClose }) => {
+  const [mode, setMode] = useState<ComparisonMode>('slider');
+  const [split, setSplit] = useState(50);
+  const [isShowingBefore, setIsShowingBefore] = useState(false);
+  const [heatmap, setHeatmap] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The heatmap is only worth computing once someone asks for it
+  useEffect(() => {
+    if (mode !== 'difference' || heatmap) return;
+    let isCurrent = true;
+    computeDifferenceHeatmap(before, after)
+      .then(result => {
+        if (isCurrent) setHeatmap(result);
+      })
+      .catch(err => {
+        if (isCurrent) setError(err instanceof Error ? err.message : 'Failed to compute difference');
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [mode, heatmap, before, after]);
+
+  useEffect(() => {
+    setHeatmap(null);
+    setError(null);
+  }, [before, after]);
+
+  return (
+    <ViewfinderOverlay className="comparison-view">
+      <div className="comparison-stage">
+        {mode === 'slider' && (
+          <div className="comparison-frame">
+            <img src={after} alt="Enhanced" className="comparison-image" />
+            {/* The source crop is stretched to the enhanced image's box, i.e. upscaled */}
+            <img
+              src={before}
+              alt="Source crop"
+              className="comparison-image comparison-overlay"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            />
+            <div className="comparison-divider" style={{ left: `${split}%` }} />
+          </div>
+        )}
+        {mode === 'toggle' && (
+          <div className="comparison-frame">
+            <img src={isShowingBefore ? before : after} alt={isShowingBefore ? 'Source crop' : 'Enhanced'} className="comparison-image" />
+            <span className="comparison-badge">{isShowingBefore ? 'Before' : 'After'}</span>
+          </div>
+        )}
+        {mode === 'difference' && (
+          <div className="comparison-frame">
+            {heatmap
+              ? <img src={heatmap} alt="Difference heatmap" className="comparison-image" />
+              : <span className="comparison-badge">{error ?? 'Computing difference…'}</span>}
+          </div>
+        )}
+      </div>
+
+      <div className="comparison-controls">
+        {modes.map(option => (
+          <button
+            key={option.id}
+            className={`ratio-button ${mode === option.id ? 'active' : ''}`}
+            onClick={() => setMode(option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+        {mode === 'slider' && (
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={split}
+            onChange={e => setSplit(Number(e.target.value))}
+            aria-label="Before/after split"
+          />
+        )}
+        {mode === 'toggle' && (
+          <button
+            className="ratio-button"
+            onMouseDown={() => setIsShowingBefore(true)}
+            onMouseUp={() => setIsShowingBefore(false)}
+            onMouseLeave={() => setIsShowingBefore(false)}
+            onClick={e => e.detail === 0 && setIsShowingBefore(showing => !showing)}
+          >
+            Hold to see before
+          </button>
+        )}
+        {mode === 'difference' && (
+          <span className="comparison-legend">Black: unchanged · red → yellow → white: increasingly altered</span>
+        )}
+        <button className="ratio-button comparison-close" onClick={onClose}>Close</button>
+      </div>
+    </ViewfinderOverlay>
+  );
+};
+
+export default ComparisonView;
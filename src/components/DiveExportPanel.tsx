@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_DIVE_EXPORT_OPTIONS,
+  diveExportService,
+  type DiveExportOptions,
+  type DiveFormat
+} from '../services/diveExportService';
+import type { ExplorationNode } from '../types/exploration';
+import type { DiveEasing } from '../utils/zoomDive';
+import './DiveExportPanel.css';
+
+interface DiveExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  path: ExplorationNode[]; // root first
+}
+
+const resolutions = [
+  { label: '480p', width: 854, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: 'Square', width: 1080, height: 1080 },
+  { label: 'Portrait', width: 720, height: 1280 }
+];
+
+const easings: DiveEasing[] = ['linear', 'ease-in', 'ease-out', 'ease-in-out'];
+
+interface DiveResult {
+  url: string;
+  format: DiveFormat;
+}
+
+export const DiveExportPanel: React.FC<DiveExportPanelProps> = ({ isOpen, onClose, path }) => {
+  const [options, setOptions] = useState<DiveExportOptions>(() => (
+    diveExportService.isFormatSupported(DEFAULT_DIVE_EXPORT_OPTIONS.format)
+      ? DEFAULT_DIVE_EXPORT_OPTIONS
+      : { ...DEFAULT_DIVE_EXPORT_OPTIONS, format: 'apng' }
+  ));
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<DiveResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Release the previous export's object URL whenever it is replaced or the panel unmounts
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  // Closing or unmounting the panel stops a running export instead of leaving it recording unseen
+  useEffect(() => {
+    if (!isOpen) abortControllerRef.current?.abort();
+    return () => abortControllerRef.current?.abort();
+  }, [isOpen]);
+
+  const updateOption = <K extends keyof DiveExportOptions>(key: K, value: DiveExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setResult(null);
+    setError(null);
+    setProgress(0);
+
+    try {
+      const blob = await diveExportService.exportDive(path, options, controller.signal, setProgress);
+      setResult({ url: URL.createObjectURL(blob), format: options.format });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to export dive');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  if (!isOpen) return null;
+
+  const isExporting = progress !== null;
+  const layerCount = path.length - 1;
+  const resolution = resolutions.find(r => r.width === options.width && r.height === options.height);
+
+  return (
+    <div className="dive-export">
+      <div className="dive-export-header">
+        <h3>Export Zoom Dive</h3>
+        <button className="dive-export-close" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <p className="dive-export-summary">
+        {layerCount > 0
+          ? `Original → ${layerCount} enhanced ${layerCount === 1 ? 'layer' : 'layers'} (the path to the current layer), about ${Math.round(layerCount * options.secondsPerLayer)}s`
+          : 'Enhance at least one layer to export a dive.'}
+      </p>
+
+      <div className="dive-export-options">
+        <label>
+          Format
+          <select
+            value={options.format}
+            onChange={e => updateOption('format', e.target.value as DiveFormat)}
+            disabled={isExporting}
+          >
+            <option value="webm" disabled={!diveExportService.isFormatSupported('webm')}>WebM video</option>
+            <option value="apng">Animated PNG</option>
+          </select>
+        </label>
+        <label>
+          Seconds per layer
+          <input
+            type="number"
+            min={0.5}
+            max={20}
+            step={0.5}
+            value={options.secondsPerLayer}
+            onChange={e => updateOption('secondsPerLayer', Math.max(0.5, Number(e.target.value) || 0.5))}
+            disabled={isExporting}
+          />
+        </label>
+        <label>
+          Easing
+          <select
+            value={options.easing}
+            onChange={e => updateOption('easing', e.target.value as DiveEasing)}
+            disabled={isExporting}
+          >
+            {easings.map(easing => (
+              <option key={easing} value={easing}>{easing}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Resolution
+          <select
+            value={resolution?.label}
+            onChange={e => {
+              const selected = resolutions.find(r => r.label === e.target.value);
+              if (selected) {
+                setOptions(prev => ({ ...prev, width: selected.width, height: selected.height }));
+              }
+            }}
+            disabled={isExporting}
+          >
+            {resolutions.map(r => (
+              <option key={r.label} value={r.label}>{r.label} ({r.width}×{r.height})</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Frame rate
+          <select
+            value={options.fps}
+            onChange={e => updateOption('fps', Number(e.target.value))}
+            disabled={isExporting}
+          >
+            {[12, 15, 24, 30, 60].map(fps => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {options.format === 'webm' && (
+        <p className="dive-export-note">WebM is recorded in real time, so export takes as long as the dive.</p>
+      )}
+      {options.format === 'apng' && (
+        <p className="dive-export-note">Animated PNGs are lossless and large; lower the resolution or frame rate for long dives.</p>
+      )}
+
+      {isExporting ? (
+        <div className="dive-export-progress">
+          <div className="dive-export-bar">
+            <div className="dive-export-fill" style={{ width: `${progress}%` }} />
+          </div>
+          <button className="ratio-button" onClick={handleCancel}>Cancel</button>
+        </div>
+      ) : (
+        <button className="dive-export-button" onClick={handleExport} disabled={layerCount === 0}>
+          🎬 Render dive
+        </button>
+      )}
+
+      {error && <p className="error-info">⚠️ {error}</p>}
+
+      {result && (
+        <div className="dive-export-result">
+          {result.format === 'webm'
+            ? <video src={result.url} controls loop autoPlay muted />
+            : <img src={result.url} alt="Zoom dive preview" />}
+          <a
+            className="ratio-button"
+            href={result.url}
+            download={`banana-scope-dive.${result.format === 'webm' ? 'webm' : 'png'}`}
+          >
+            Download
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiveExportPanel;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import type { ExplorationNode } from '../types/exploration';
+import { formatFidelityMetrics } from '../utils/fidelity';
+import './ExplorationNavigator.css';
+
+interface ExplorationNavigatorProps {
+  root: ExplorationNode;
+  currentId: string;
+  nodeCount: number;
+  getPath: (id: string) => ExplorationNode[];
+  getChildren: (id: string) => ExplorationNode[];
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+}
+
+const nodeLabel = (node: ExplorationNode): string => {
+  return node.parentId === null ? 'Original' : `Layer ${node.depth}`;
+};
+
+const nodeDescription = (node: ExplorationNode): string => {
+  if (!node.cropArea) {
+    return node.parentId === null ? 'Uploaded image' : 'Whole parent image';
+  }
+  const { x, y, width, height } = node.cropArea;
+  const region = `${width}×${height} at (${x}, ${y}) · ${Math.round(node.zoomLevel * 100)}%`;
+  return node.metrics ? `${region}\n${formatFidelityMetrics(node.metrics)}` : region;
+};
+
+export const ExplorationNavigator: React.FC<ExplorationNavigatorProps> = ({
+  root,
+  currentId,
+  nodeCount,
+  getPath,
+  getChildren,
+  onSelect,
+  disabled = false
+}) => {
+  const [isTreeOpen, setIsTreeOpen] = useState(false);
+  const path = getPath(currentId);
+  const onPath = new Set(path.map(node => node.id));
+
+  const renderBranch = (node: ExplorationNode): React.ReactNode => {
+    const children = getChildren(node.id);
+    return (
+      <li key={node.id}>
+        <button
+          className={`exploration-node ${node.id === currentId ? 'current' : ''} ${onPath.has(node.id) ? 'on-path' : ''}`}
+          onClick={() => onSelect(node.id)}
+          disabled={disabled || node.id === currentId}
+          title={nodeDescription(node)}
+        >
+          <img src={node.image} alt="" className="exploration-thumbnail" />
+          <span className="exploration-node-label">{nodeLabel(node)}</span>
+          <span className="exploration-node-detail">{nodeDescription(node)}</span>
+        </button>
+        {children.length > 0 && <ul>{children.map(renderBranch)}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <div className="exploration-navigator">
+      <div className="exploration-breadcrumb-row">
+        <nav className="exploration-breadcrumb" aria-label="Exploration path">
+          {path.map((node, index) => (
+            <React.Fragment key={node.id}>
+              {index > 0 && <span className="exploration-separator">›</span>}
+              <button
+                className={`exploration-crumb ${node.id === currentId ? 'current' : ''}`}
+                onClick={() => onSelect(node.id)}
+                disabled={disabled || node.id === currentId}
+                title={nodeDescription(node)}
+              >
+                {nodeLabel(node)}
+              </button>
+            </React.Fragment>
+          ))}
+        </nav>
+        <button
+          className="exploration-tree-toggle"
+          onClick={() => setIsTreeOpen(open => !open)}
+          aria-expanded={isTreeOpen}
+        >
+          🌳 Branches ({nodeCount})
+        </button>
+      </div>
+
+      {isTreeOpen && (
+        <ul className="exploration-tree">{renderBranch(root)}</ul>
+      )}
+    </div>
+  );
+};
+
+export default ExplorationNavigator;
@@ -0,0 +1,36 @@
+import React from 'react';
+import type { FidelityMetrics, FidelityThresholds } from '../types/enhancement';
+import { findFidelityFailures } from '../utils/fidelity';
+import './FidelityReadout.css';
+
+interface FidelityReadoutProps {
+  metrics: FidelityMetrics;
+  thresholds?: FidelityThresholds | null; // highlights failing metrics when given
+}
+
+export const FidelityReadout: React.FC<FidelityReadoutProps> = ({ metrics, thresholds }) => {
+  const failures = new Set(thresholds ? findFidelityFailures(metrics, thresholds) : []);
+  const items = [
+    { name: 'PSNR', value: `${metrics.psnr.toFixed(1)} dB`, hint: 'Pixel agreement with the source crop; higher is closer' },
+    { name: 'SSIM', value: metrics.ssim.toFixed(2), hint: 'Structural similarity to the source crop; 1 is identical' },
+    { name: 'color drift', value: metrics.histogramDrift.toFixed(2), hint: 'Change in color distribution; 0 is unchanged' },
+    { name: 'edges', value: metrics.edgeSimilarity.toFixed(2), hint: 'How well outlines line up with the source crop; 1 is identical' }
+  ];
+
+  return (
+    <div className={`fidelity-readout ${failures.size > 0 ? 'drifted' : ''}`}>
+      {failures.size > 0 && <span className="fidelity-flag">⚠️ Drifted</span>}
+      {items.map(item => (
+        <span
+          key={item.name}
+          className={`fidelity-metric ${failures.has(item.name) ? 'failing' : ''}`}
+          title={item.hint}
+        >
+          {item.name} {item.value}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default FidelityReadout;
@@ -22,6 +22,14 @@ export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
         <div className="telescope-message">
           <h3>{message}<span className="dots">...</span></h3>
         </div>
+        <div className="progress-indicator">
+          <span>{Math.round(progress)}%</span>
+        </div>
+        {onCancel && (
+          <button className="cancel-focusing-button" onClick={onCancel}>
+            Cancel focusing
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { NormalizedRegion } from '../types/enhancement';
+import './Minimap.css';
+
+interface MinimapProps {
+  imageSrc: string;
+  viewRegion: NormalizedRegion | null; // part of the base layer in the viewfinder
+  cachedRegions: NormalizedRegion[]; // enhancements already cached for this layer
+  childRegions: NormalizedRegion[]; // layers branched off this one
+  onNavigate: (center: { x: number; y: number }) => void; // fractions of the base layer
+}
+
+const regionStyle = (region: NormalizedRegion): React.CSSProperties => ({
+  left: `${region.x * 100}%`,
+  top: `${region.y * 100}%`,
+  width: `${region.width * 100}%`,
+  height: `${region.height * 100}%`
+});
+
+export const Minimap: React.FC<MinimapProps> = ({
+  imageSrc,
+  viewRegion,
+  cachedRegions,
+  childRegions,
+  onNavigate
+}) => {
+  const navigateTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate({
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    navigateTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      navigateTo(e);
+    }
+  };
+
+  return (
+    // Clicks and drags here pan through the minimap, not the viewfinder underneath
+    <div
+      className="minimap"
+      onMouseDown={e => e.stopPropagation()}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      title="Click or drag to move the viewfinder"
+    >
+      <img src={imageSrc} alt="" className="minimap-image" draggable={false} />
+      {cachedRegions.map((region, index) => (
+        <div key={`cached-${index}`} className="minimap-marker cached" style={regionStyle(region)} />
+      ))}
+      {childRegions.map((region, index) => (
+        <div key={`child-${index}`} className="minimap-marker child" style={regionStyle(region)} />
+      ))}
+      {viewRegion && <div className="minimap-view" style={regionStyle(viewRegion)} />}
+    </div>
+  );
+};
+
+export default Minimap;
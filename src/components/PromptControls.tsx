@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { promptLibrary } from '../services/promptLibrary';
+import type { PromptPreset } from '../types/prompt';
+import { PROMPT_VARIABLES } from '../utils/promptTemplate';
+import './PromptControls.css';
+
+interface PromptControlsProps {
+  selectedPresetId: string;
+  onSelectPreset: (id: string) => void;
+  override: string | null; // one-shot template for the next enhancement
+  onOverrideChange: (override: string | null) => void;
+  disabled?: boolean;
+}
+
+interface PresetDraft {
+  id?: string; // set when editing an existing custom preset
+  label: string;
+  template: string;
+}
+
+export const PromptControls: React.FC<PromptControlsProps> = ({
+  selectedPresetId,
+  onSelectPreset,
+  override,
+  onOverrideChange,
+  disabled = false
+}) => {
+  const [presets, setPresets] = useState<PromptPreset[]>(() => promptLibrary.getPresets());
+  const [draft, setDraft] = useState<PresetDraft | null>(null);
+  const selected = presets.find(preset => preset.id === selectedPresetId) ?? presets[0];
+
+  const handleEdit = () => {
+    setDraft(selected.builtIn
+      ? { label: `${selected.label} (copy)`, template: selected.template }
+      : { id: selected.id, label: selected.label, template: selected.template });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const saved = promptLibrary.saveCustomPreset(draft.label, draft.template, draft.id);
+    setPresets(promptLibrary.getPresets());
+    setDraft(null);
+    onSelectPreset(saved.id);
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id) return;
+    promptLibrary.removeCustomPreset(draft.id);
+    setPresets(promptLibrary.getPresets());
+    setDraft(null);
+    onSelectPreset(promptLibrary.getDefaultPresetId());
+  };
+
+  const variableHelp = (
+    <p className="prompt-variables">
+      Variables: {PROMPT_VARIABLES.map(variable => (
+        <code key={variable.name} title={variable.description}>{`{${variable.name}}`}</code>
+      ))}
+    </p>
+  );
+
+  return (
+    <div className="prompt-controls">
+      <div className="prompt-controls-row">
+        <span className="ratio-label">Prompt:</span>
+        <select
+          className="prompt-select"
+          value={selected.id}
+          onChange={e => onSelectPreset(e.target.value)}
+          disabled={disabled}
+          title={selected.template}
+        >
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label}{preset.builtIn ? '' : ' (custom)'}
+            </option>
+          ))}
+        </select>
+        <button
+          className={`ratio-button ${draft ? 'active' : ''}`}
+          onClick={() => (draft ? setDraft(null) : handleEdit())}
+          disabled={disabled}
+          title={selected.builtIn ? 'Start a custom prompt from this preset' : 'Edit this custom prompt'}
+        >
+          {selected.builtIn ? 'Customize' : 'Edit'}
+        </button>
+        <button
+          className={`ratio-button ${override !== null ? 'active' : ''}`}
+          onClick={() => onOverrideChange(override === null ? selected.template : null)}
+          disabled={disabled}
+          title="Use a different prompt for the next enhancement only"
+        >
+          Override next
+        </button>
+      </div>
+
+      {draft && (
+        <div className="prompt-editor">
+          <input
+            type="text"
+            value={draft.label}
+            onChange={e => setDraft({ ...draft, label: e.target.value })}
+            placeholder="Preset name"
+          />
+          <textarea
+            rows={4}
+            value={draft.template}
+            onChange={e => setDraft({ ...draft, template: e.target.value })}
+          />
+          {variableHelp}
+          <div className="prompt-editor-actions">
+            <button className="ratio-button" onClick={handleSave} disabled={!draft.template.trim()}>
+              {draft.id ? 'Save' : 'Save as new preset'}
+            </button>
+            {draft.id && (
+              <button className="ratio-button" onClick={handleDelete}>Delete</button>
+            )}
+            <button className="ratio-button" onClick={() => setDraft(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {override !== null && (
+        <div className="prompt-editor">
+          <span className="prompt-override-note">Next enhancement only, then back to “{selected.label}”</span>
+          <textarea
+            rows={4}
+            value={override}
+            onChange={e => onOverrideChange(e.target.value)}
+            disabled={disabled}
+          />
+          {variableHelp}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptControls;
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TilePyramid } from '../utils/tilePyramid';
+import { computeViewMatrix } from '../utils/viewTransform';
+
+interface PyramidViewerProps {
+  pyramid: TilePyramid;
+  version: number;
+  zoomLevel: number;
+  panPosition: { x: number; y: number };
+  isBlurred?: boolean;
+}
+
+export const PyramidViewer: React.FC<PyramidViewerProps> = ({
+  pyramid,
+  version,
+  zoomLevel,
+  panPosition,
+  isBlurred = false
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Match the canvas backing store to the container it fills
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = canvas?.parentElement;
+    if (!canvas || !container) return;
+
+    const observer = new ResizeObserver(() => {
+      setSize({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0 || size.height === 0) return;
+
+    const frame = requestAnimationFrame(() => {
+      canvas.width = size.width;
+      canvas.height = size.height;
+      pyramid.draw(ctx, computeViewMatrix(
+        { viewportWidth: size.width, viewportHeight: size.height, contentWidth: pyramid.width, contentHeight: pyramid.height },
+        { zoomLevel, panPosition }
+      ));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [pyramid, version, zoomLevel, panPosition, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`pyramid-canvas ${isBlurred ? 'blurred' : ''}`}
+    />
+  );
+};
+
+export default PyramidViewer;
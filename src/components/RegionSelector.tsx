@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import ReactCrop, { type PercentCrop } from 'react-image-crop';
+import 'react-image-crop/dist/ReactCrop.css';
+import type { CropArea } from '../types/enhancement';
+import { ViewfinderOverlay } from './ViewfinderOverlay';
+import './RegionSelector.css';
+
+interface RegionSelectorProps {
+  imageSrc: string;
+  viewfinderAspectRatio: number;
+  onConfirm: (cropArea: CropArea, instruction: string) => void;
+  onCancel: () => void;
+}
+
+// Smallest selection, in source pixels, worth sending for enhancement
+const MIN_REGION_SIZE = 16;
+
+export const RegionSelector: React.FC<RegionSelectorProps> = ({
+  imageSrc,
+  viewfinderAspectRatio,
+  onConfirm,
+  onCancel
+}) => {
+  // Percent crops survive the image being resized with the window
+  const [crop, setCrop] = useState<PercentCrop>();
+  const [isAspectLocked, setIsAspectLocked] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  const toCropArea = (): CropArea | null => {
+    const image = imageRef.current;
+    if (!crop || !image) return null;
+
+    const { naturalWidth, naturalHeight } = image;
+    const width = Math.round((crop.width / 100) * naturalWidth);
+    const height = Math.round((crop.height / 100) * naturalHeight);
+    if (width < MIN_REGION_SIZE || height < MIN_REGION_SIZE) return null;
+
+    return {
+      x: Math.round((crop.x / 100) * naturalWidth),
+      y: Math.round((crop.y / 100) * naturalHeight),
+      width,
+      height,
+      sourceWidth: naturalWidth,
+      sourceHeight: naturalHeight,
+      // Unlocked selections keep their own shape rather than being letterboxed to the viewfinder
+      aspectRatio: isAspectLocked ? viewfinderAspectRatio : width / height
+    };
+  };
+
+  const cropArea = toCropArea();
+
+  return (
+    <ViewfinderOverlay className="region-selector">
+      <div className="region-selector-canvas">
+        <ReactCrop
+          crop={crop}
+          onChange={(_, percentCrop) => setCrop(percentCrop)}
+          aspect={isAspectLocked ? viewfinderAspectRatio : undefined}
+          ruleOfThirds
+        >
+          <img ref={imageRef} src={imageSrc} alt="Select a region to enhance" className="region-selector-image" />
+        </ReactCrop>
+      </div>
+
+      <div className="region-selector-controls">
+        <input
+          type="text"
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && cropArea) onConfirm(cropArea, instruction);
+          }}
+          placeholder="Optional instruction, e.g. “reveal the text on the sign”"
+        />
+        <label className="region-selector-lock">
+          <input
+            type="checkbox"
+            checked={isAspectLocked}
+            onChange={e => {
+              setIsAspectLocked(e.target.checked);
+              // An existing free-form selection would not match the locked ratio
+              setCrop(undefined);
+            }}
+          />
+          Viewfinder ratio
+        </label>
+        <button
+          className="ratio-button active"
+          onClick={() => cropArea && onConfirm(cropArea, instruction)}
+          disabled={!cropArea}
+          title={cropArea ? `Enhance ${cropArea.width}×${cropArea.height} at (${cropArea.x}, ${cropArea.y})` : 'Drag over the image to select a region'}
+        >
+          Enhance region
+        </button>
+        <button className="ratio-button" onClick={onCancel}>Cancel</button>
+      </div>
+    </ViewfinderOverlay>
+  );
+};
+
+export default RegionSelector;
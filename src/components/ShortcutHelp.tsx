@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { shortcutRegistry } from '../services/shortcutRegistry';
+import type { ShortcutAction, ShortcutBindings } from '../types/shortcuts';
+import { formatKeyCombo, keyComboFromEvent } from '../utils/keyCombo';
+import './ShortcutHelp.css';
+
+interface ShortcutHelpProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bindings: ShortcutBindings;
+  onRemap: (action: ShortcutAction, combo: string) => void;
+  onReset: () => void;
+}
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ isOpen, onClose, bindings, onRemap, onReset }) => {
+  const [remapping, setRemapping] = useState<ShortcutAction | null>(null);
+
+  // While remapping, the next key press becomes the binding; otherwise Escape closes the panel
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!remapping) {
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          onClose();
+        }
+        return;
+      }
+
+      const combo = keyComboFromEvent(event);
+      if (!combo) return; // wait for the key that goes with the modifiers
+      event.preventDefault();
+      if (combo !== 'Escape') {
+        onRemap(remapping, combo);
+      }
+      setRemapping(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, remapping, onRemap, onClose]);
+
+  useEffect(() => {
+    if (!isOpen) setRemapping(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="shortcut-help-backdrop" onClick={onClose}>
+      <div className="shortcut-help" onClick={e => e.stopPropagation()}>
+        <div className="shortcut-help-header">
+          <h3>Keyboard Shortcuts</h3>
+          <button className="shortcut-help-close" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        <ul className="shortcut-list">
+          {shortcutRegistry.getDefinitions().map(definition => (
+            <li key={definition.action} className="shortcut-row">
+              <span className="shortcut-label">{definition.label}</span>
+              <span className="shortcut-keys">
+                {remapping === definition.action ? (
+                  <span className="shortcut-waiting">Press a key… (Esc to cancel)</span>
+                ) : bindings[definition.action].length > 0 ? (
+                  bindings[definition.action].map(combo => <kbd key={combo}>{formatKeyCombo(combo)}</kbd>)
+                ) : (
+                  <span className="shortcut-unbound">Unbound</span>
+                )}
+              </span>
+              <button
+                className="ratio-button"
+                onClick={() => setRemapping(definition.action)}
+                disabled={remapping !== null}
+              >
+                Change
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <p className="shortcut-note">Keys already used by another action move to the new one.</p>
+        <button className="ratio-button" onClick={onReset} disabled={remapping !== null}>
+          Restore defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
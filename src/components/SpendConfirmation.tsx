@@ -0,0 +1,39 @@
+import React from 'react';
+import { ViewfinderOverlay } from './ViewfinderOverlay';
+import './SpendConfirmation.css';
+
+interface SpendConfirmationProps {
+  providerLabel: string;
+  requestCount: number;
+  maxRequestCount: number; // including retries the fidelity gate may add
+  onConfirm: () => void;
+  onDecline: () => void;
+}
+
+export const SpendConfirmation: React.FC<SpendConfirmationProps> = ({
+  providerLabel,
+  requestCount,
+  maxRequestCount,
+  onConfirm,
+  onDecline
+}) => {
+  const requests = (count: number) => `${count} ${count === 1 ? 'request' : 'requests'}`;
+
+  return (
+    <ViewfinderOverlay className="spend-confirmation">
+      <div className="spend-confirmation-panel">
+        <strong>Enhance this view?</strong>
+        <span>
+          This sends {requests(requestCount)} to {providerLabel}
+          {maxRequestCount > requestCount && `, or up to ${maxRequestCount} if results drift and are retried`}.
+        </span>
+        <div className="spend-confirmation-actions">
+          <button className="ratio-button active" onClick={onConfirm}>Enhance</button>
+          <button className="ratio-button" onClick={onDecline}>Not now</button>
+        </div>
+      </div>
+    </ViewfinderOverlay>
+  );
+};
+
+export default SpendConfirmation;
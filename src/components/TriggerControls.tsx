@@ -0,0 +1,104 @@
+import React from 'react';
+import { IDLE_DELAYS_MS, PREFETCH_BUDGETS, TRIGGER_MODES, TRIGGER_THRESHOLDS } from '../services/triggerSettings';
+import type { EnhancementTriggerMode, EnhancementTriggerSettings } from '../types/enhancement';
+import './TriggerControls.css';
+
+interface TriggerControlsProps {
+  settings: EnhancementTriggerSettings;
+  onChange: (changes: Partial<EnhancementTriggerSettings>) => void;
+  onEnhanceNow: () => void;
+  prefetchSpent: number; // speculative requests made for the current image
+  isPrefetching: boolean;
+  disabled?: boolean;
+}
+
+export const TriggerControls: React.FC<TriggerControlsProps> = ({
+  settings,
+  onChange,
+  onEnhanceNow,
+  prefetchSpent,
+  isPrefetching,
+  disabled = false
+}) => {
+  const selectedMode = TRIGGER_MODES.find(option => option.id === settings.mode);
+  const usesThreshold = settings.mode !== 'manual';
+
+  return (
+    <div className="trigger-controls">
+      <label className="toolbar-select" title={selectedMode?.description}>
+        Enhance
+        <select
+          value={settings.mode}
+          onChange={e => onChange({ mode: e.target.value as EnhancementTriggerMode })}
+        >
+          {TRIGGER_MODES.map(option => (
+            <option key={option.id} value={option.id} title={option.description}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      {usesThreshold && (
+        <label className="toolbar-select" title="Magnification over the sharpest detail on screen at which enhancement starts">
+          above
+          <select
+            value={settings.threshold}
+            onChange={e => onChange({ threshold: Number(e.target.value) })}
+          >
+            {TRIGGER_THRESHOLDS.map(threshold => (
+              <option key={threshold} value={threshold}>{threshold}×</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {settings.mode === 'idle' && (
+        <label className="toolbar-select" title="How long the view must stay still before enhancing">
+          after
+          <select
+            value={settings.idleDelayMs}
+            onChange={e => onChange({ idleDelayMs: Number(e.target.value) })}
+          >
+            {IDLE_DELAYS_MS.map(delay => (
+              <option key={delay} value={delay}>{delay / 1000}s</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {settings.mode === 'prefetch' && (
+        <label
+          className="toolbar-select"
+          title="Speculative requests allowed for this image; none are made while confirm-before-spending applies"
+        >
+          budget
+          <select
+            value={settings.prefetchBudget}
+            onChange={e => onChange({ prefetchBudget: Number(e.target.value) })}
+          >
+            {PREFETCH_BUDGETS.map(budget => (
+              <option key={budget} value={budget}>{budget}</option>
+            ))}
+          </select>
+          <span className="trigger-prefetch-status">
+            {prefetchSpent} used{isPrefetching && ' · prefetching…'}
+          </span>
+        </label>
+      )}
+      <label className="toolbar-select" title="Ask before sending requests to a provider that charges for them">
+        <input
+          type="checkbox"
+          checked={settings.confirmBeforeSpend}
+          onChange={e => onChange({ confirmBeforeSpend: e.target.checked })}
+        />
+        Confirm before spending
+      </label>
+      <button
+        className="ratio-button"
+        onClick={onEnhanceNow}
+        disabled={disabled}
+        title="Enhance the current view now, whatever the magnification"
+      >
+        Enhance view
+      </button>
+    </div>
+  );
+};
+
+export default TriggerControls;
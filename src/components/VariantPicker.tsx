@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import type { EnhancedImage, FidelityThresholds } from '../types/enhancement';
+import { FidelityReadout } from './FidelityReadout';
+import { ViewfinderOverlay } from './ViewfinderOverlay';
+import './VariantPicker.css';
+
+interface VariantPickerProps {
+  candidates: EnhancedImage[];
+  onPick: (index: number) => void;
+  onDiscard: () => void;
+  thresholds?: FidelityThresholds | null;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({ candidates, onPick, onDiscard, thresholds }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selected = candidates[selectedIndex];
+
+  return (
+    <ViewfinderOverlay className="variant-picker">
+      <div className="variant-picker-preview">
+        {selected && <img src={selected.data} alt={`Variant ${selectedIndex + 1}`} />}
+      </div>
+
+      {selected?.metrics && <FidelityReadout metrics={selected.metrics} thresholds={thresholds} />}
+
+      <div className="variant-picker-grid">
+        {candidates.map((candidate, index) => (
+          <button
+            key={candidate.id}
+            className={`variant-card ${index === selectedIndex ? 'selected' : ''}`}
+            onClick={() => setSelectedIndex(index)}
+            onDoubleClick={() => onPick(index)}
+            title="Click to compare, double-click to keep"
+          >
+            <img src={candidate.data} alt={`Variant ${index + 1}`} />
+            <span>Variant {index + 1}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="variant-picker-actions">
+        <span className="variant-picker-note">The others stay in the cache as rejected variants</span>
+        <button className="ratio-button active" onClick={() => onPick(selectedIndex)}>
+          Keep variant {selectedIndex + 1}
+        </button>
+        <button className="ratio-button" onClick={onDiscard}>Discard all</button>
+      </div>
+    </ViewfinderOverlay>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,21 @@
+import React from 'react';
+import './ViewfinderOverlay.css';
+
+interface ViewfinderOverlayProps {
+  className: string;
+  children: React.ReactNode;
+}
+
+// Covers the viewfinder and keeps its pan and wheel zoom from reacting to what happens on top
+export const ViewfinderOverlay: React.FC<ViewfinderOverlayProps> = ({ className, children }) => (
+  <div
+    className={`viewfinder-overlay ${className}`}
+    onMouseDown={e => e.stopPropagation()}
+    onPointerDown={e => e.stopPropagation()}
+    onWheel={e => e.stopPropagation()}
+  >
+    {children}
+  </div>
+);
+
+export default ViewfinderOverlay;
@@ -0,0 +1,158 @@
+import { useState, useCallback } from 'react';
+import type { CropArea, FidelityMetrics } from '../types/enhancement';
+import type { ExplorationNode, ExplorationTree } from '../types/exploration';
+
+interface UseExplorationTreeReturn {
+  tree: ExplorationTree;
+  rootNode: ExplorationNode | null;
+  currentNode: ExplorationNode | null;
+  startTree: (image: string, digest: string) => void;
+  addChild: (
+    parentId: string,
+    image: string,
+    digest: string,
+    cropArea: CropArea | null,
+    zoomLevel: number,
+    model: string | null,
+    prompt: string | null,
+    metrics?: FidelityMetrics
+  ) => string;
+  selectNode: (id: string) => void;
+  getParentId: (id: string) => string | null;
+  getNextChildId: (id: string) => string | null;
+  getPath: (id: string) => ExplorationNode[];
+  getChildren: (id: string) => ExplorationNode[];
+  restoreTree: (tree: ExplorationTree) => void;
+  clearTree: () => void;
+}
+
+const EMPTY_TREE: ExplorationTree = { nodes: {}, rootId: null, currentId: null, lastVisitedChild: {} };
+
+const generateNodeId = (): string => {
+  return `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+// Record `id` as the visited child along its whole ancestor chain
+const markVisited = (tree: ExplorationTree, id: string): Record<string, string> => {
+  const lastVisitedChild = { ...tree.lastVisitedChild };
+  let node = tree.nodes[id];
+  while (node?.parentId) {
+    lastVisitedChild[node.parentId] = node.id;
+    node = tree.nodes[node.parentId];
+  }
+  return lastVisitedChild;
+};
+
+export const useExplorationTree = (): UseExplorationTreeReturn => {
+  const [tree, setTree] = useState<ExplorationTree>(EMPTY_TREE);
+
+  const startTree = useCallback((image: string, digest: string) => {
+    const root: ExplorationNode = {
+      id: generateNodeId(),
+      parentId: null,
+      image,
+      digest,
+      cropArea: null,
+      zoomLevel: 1,
+      model: null,
+      prompt: null,
+      depth: 0,
+      createdAt: Date.now()
+    };
+    setTree({ nodes: { [root.id]: root }, rootId: root.id, currentId: root.id, lastVisitedChild: {} });
+  }, []);
+
+  // New layers branch off the node they were cropped from, never off the end of a list
+  const addChild = useCallback((
+    parentId: string,
+    image: string,
+    digest: string,
+    cropArea: CropArea | null,
+    zoomLevel: number,
+    model: string | null,
+    prompt: string | null,
+    metrics?: FidelityMetrics
+  ): string => {
+    const id = generateNodeId();
+    setTree(prev => {
+      const parent = prev.nodes[parentId];
+      if (!parent) return prev;
+
+      const child: ExplorationNode = {
+        id,
+        parentId,
+        image,
+        digest,
+        cropArea,
+        zoomLevel,
+        model,
+        prompt,
+        metrics,
+        depth: parent.depth + 1,
+        createdAt: Date.now()
+      };
+      const next = { ...prev, nodes: { ...prev.nodes, [id]: child }, currentId: id };
+      return { ...next, lastVisitedChild: markVisited(next, id) };
+    });
+    return id;
+  }, []);
+
+  const selectNode = useCallback((id: string) => {
+    setTree(prev => {
+      if (!prev.nodes[id]) return prev;
+      return { ...prev, currentId: id, lastVisitedChild: markVisited(prev, id) };
+    });
+  }, []);
+
+  const getParentId = useCallback((id: string): string | null => {
+    return tree.nodes[id]?.parentId ?? null;
+  }, [tree]);
+
+  const getChildren = useCallback((id: string): ExplorationNode[] => {
+    return Object.values(tree.nodes)
+      .filter(node => node.parentId === id)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }, [tree]);
+
+  // The child last visited under `id`, falling back to its newest branch
+  const getNextChildId = useCallback((id: string): string | null => {
+    const remembered = tree.lastVisitedChild[id];
+    if (remembered && tree.nodes[remembered]) return remembered;
+    const children = getChildren(id);
+    return children.length > 0 ? children[children.length - 1].id : null;
+  }, [tree, getChildren]);
+
+  // Root-to-node lineage, for breadcrumbs
+  const getPath = useCallback((id: string): ExplorationNode[] => {
+    const path: ExplorationNode[] = [];
+    let node: ExplorationNode | undefined = tree.nodes[id];
+    while (node) {
+      path.unshift(node);
+      node = node.parentId ? tree.nodes[node.parentId] : undefined;
+    }
+    return path;
+  }, [tree]);
+
+  const restoreTree = useCallback((restored: ExplorationTree) => {
+    setTree(restored);
+  }, []);
+
+  const clearTree = useCallback(() => {
+    setTree(EMPTY_TREE);
+  }, []);
+
+  return {
+    tree,
+    rootNode: tree.rootId ? tree.nodes[tree.rootId] ?? null : null,
+    currentNode: tree.currentId ? tree.nodes[tree.currentId] ?? null : null,
+    startTree,
+    addChild,
+    selectNode,
+    getParentId,
+    getNextChildId,
+    getPath,
+    getChildren,
+    restoreTree,
+    clearTree
+  };
+};
@@ -1,28 +1,49 @@
 import { useState, useCallback, useRef } from 'react';
-import type { EnhancedImage, ImageCache, ViewportBounds } from '../types/enhancement';
+import type { CropArea, EnhancedImage, ImageCache, SimilarCacheMatch } from '../types/enhancement';
+import { persistentImageCache } from '../services/persistentCache';
+import { DEFAULT_SIMILARITY_OPTIONS, findBestSimilarImage, type SimilarityOptions } from '../utils/similarity';
 
 interface UseCacheReturn {
   cache: ImageCache;
   getCachedImage: (key: string) => EnhancedImage | null;
   setCachedImage: (image: EnhancedImage) => void;
   findSimilarCachedImage: (
-    imageSrc: string,
-    viewport: ViewportBounds,
-    tolerance?: number
-  ) => EnhancedImage | null;
+    sourceDigest: string,
+    cropArea: CropArea,
+    zoomLevel: number,
+    options?: SimilarLookupOptions
+  ) => SimilarCacheMatch | null;
   clearCache: () => void;
   removeCacheEntry: (key: string) => void;
   getCacheSize: () => number;
   pruneOldEntries: (maxAge?: number) => void;
+  hydrateFromPersistent: (sourceDigest: string) => Promise<number>;
 }
 
-export const useImageCache = (maxCacheSize: number = 50): UseCacheReturn => {
+interface SimilarLookupOptions extends Partial<SimilarityOptions> {
+  prompt?: string; // only reuse images made with exactly this prompt
+}
+
+const logPersistenceError = (error: unknown) => {
+  console.warn('Persistent cache unavailable:', error);
+};
+
+// In-memory LRU for the current session, written through to IndexedDB when `persist` is set.
+// clearCache/removeCacheEntry/pruneOldEntries only affect memory; the persistent tier keeps
+// its own byte budget and is managed through persistentImageCache.
+export const useImageCache = (maxCacheSize: number = 50, persist: boolean = true): UseCacheReturn => {
   const [cache, setCache] = useState<ImageCache>({});
   const cacheKeysRef = useRef<string[]>([]);
+  const usePersistence = persist && persistentImageCache.isSupported();
 
   const getCachedImage = useCallback((key: string): EnhancedImage | null => {
-    return cache[key] || null;
-  }, [cache]);
+    const image = cache[key] || null;
+    if (image && usePersistence) {
+      // Keep cross-session LRU order in step with actual use
+      persistentImageCache.touch(key).catch(logPersistenceError);
+    }
+    return image;
+  }, [cache, usePersistence]);
 
   const setCachedImage = useCallback((image: EnhancedImage) => {
     setCache(prevCache => {
@@ -52,31 +73,55 @@ export const useImageCache = (maxCacheSize: number = 50): UseCacheReturn => {
       
       return newCache;
     });
-  }, [maxCacheSize]);
 
-  const findSimilarCachedImage = useCallback((
-    imageSrc: string,
-    viewport: ViewportBounds,
-    tolerance: number = 50
-  ): EnhancedImage | null => {
-    const entries = Object.values(cache);
-    
-    for (const entry of entries) {
-      if (entry.originalImageSrc !== imageSrc) continue;
-      
-      // Check if viewport is similar (within tolerance pixels)
-      const xDiff = Math.abs(entry.viewport.x - viewport.x);
-      const yDiff = Math.abs(entry.viewport.y - viewport.y);
-      const widthDiff = Math.abs(entry.viewport.width - viewport.width);
-      const heightDiff = Math.abs(entry.viewport.height - viewport.height);
-      
-      if (xDiff <= tolerance && yDiff <= tolerance && 
-          widthDiff <= tolerance && heightDiff <= tolerance) {
-        return entry;
-      }
+    if (usePersistence) {
+      persistentImageCache.put(image).catch(logPersistenceError);
     }
-    
-    return null;
+  }, [maxCacheSize, usePersistence]);
+
+  const hydrateFromPersistent = useCallback(async (sourceDigest: string): Promise<number> => {
+    if (!usePersistence || !sourceDigest) return 0;
+
+    let images: EnhancedImage[];
+    try {
+      images = await persistentImageCache.getBySource(sourceDigest, maxCacheSize);
+    } catch (error) {
+      logPersistenceError(error);
+      return 0;
+    }
+
+    setCache(prevCache => {
+      const newCache = { ...prevCache };
+      // Oldest first so the most recently used stored entries end up at the LRU tail
+      for (const image of [...images].reverse()) {
+        if (newCache[image.id]) continue;
+        if (cacheKeysRef.current.length >= maxCacheSize) {
+          const oldestKey = cacheKeysRef.current.shift();
+          if (oldestKey) delete newCache[oldestKey];
+        }
+        newCache[image.id] = image;
+        cacheKeysRef.current.push(image.id);
+      }
+      return newCache;
+    });
+
+    return images.length;
+  }, [maxCacheSize, usePersistence]);
+
+  const findSimilarCachedImage = useCallback((
+    sourceDigest: string,
+    cropArea: CropArea,
+    zoomLevel: number,
+    { prompt, ...options }: SimilarLookupOptions = {}
+  ): SimilarCacheMatch | null => {
+    const candidates = Object.values(cache).filter(image => !image.rejected && (prompt === undefined || image.prompt === prompt));
+    return findBestSimilarImage(
+      candidates,
+      sourceDigest,
+      cropArea,
+      zoomLevel,
+      { ...DEFAULT_SIMILARITY_OPTIONS, ...options }
+    );
   }, [cache]);
 
   const clearCache = useCallback(() => {
@@ -133,6 +178,7 @@ export const useImageCache = (maxCacheSize: number = 50): UseCacheReturn => {
     clearCache,
     removeCacheEntry,
     getCacheSize,
-    pruneOldEntries
+    pruneOldEntries,
+    hydrateFromPersistent
   };
 };
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { shortcutRegistry } from '../services/shortcutRegistry';
+import type { ShortcutAction, ShortcutBindings } from '../types/shortcuts';
+import { isEditableTarget, keyComboFromEvent } from '../utils/keyCombo';
+
+type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Run the handler bound to each key press on the page, unless the user is typing into a field.
+// Handlers are read at press time, so they can close over the latest render
+export const useKeyboardShortcuts = (
+  bindings: ShortcutBindings,
+  handlers: ShortcutHandlers,
+  enabled: boolean = true
+): void => {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const actionsByCombo = new Map<string, ShortcutAction>();
+    for (const [action, combos] of Object.entries(bindings) as [ShortcutAction, string[]][]) {
+      combos.forEach(combo => actionsByCombo.set(combo, action));
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || isEditableTarget(event.target)) return;
+
+      const combo = keyComboFromEvent(event);
+      // Enter and Space on a focused button belong to the button
+      if (event.target instanceof HTMLButtonElement && (combo === 'Enter' || combo === ' ')) return;
+      const action = combo ? actionsByCombo.get(combo) : undefined;
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!action || !handler) return;
+      if (event.repeat && !shortcutRegistry.getDefinition(action)?.repeatable) return;
+
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+};
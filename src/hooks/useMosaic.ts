@@ -0,0 +1,172 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { CropArea } from '../types/enhancement';
+import { computeBytesDigest } from '../utils/hash';
+import { normalizeViewport } from '../utils/similarity';
+import { featherCanvasEdges } from '../utils/tiling';
+import { loadImage } from '../utils/viewport';
+
+// Keep the mosaic canvas around 32 MP (~128 MB of pixels)
+const MAX_MOSAIC_PIXELS = 32 * 1024 * 1024;
+// Fraction of a patch's shorter side blended into what is already there
+const PATCH_FEATHER = 0.04;
+
+interface UseMosaicReturn {
+  mosaicSrc: string | null;
+  mosaicDigest: string | null;
+  patchCount: number;
+  isActive: boolean;
+  startMosaic: (baseImageSrc: string) => Promise<void>;
+  compositePatch: (patchSrc: string, cropArea: CropArea) => Promise<void>;
+  exportMosaic: () => string | null;
+  stopMosaic: () => void;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode mosaic'))), 'image/png');
+  });
+};
+
+// A canvas at (up to) the resolution of the sharpest patch so far, starting from the base
+// image and accumulating every enhanced crop at the position it was taken from.
+export const useMosaic = (): UseMosaicReturn => {
+  const [mosaicSrc, setMosaicSrc] = useState<string | null>(null);
+  const [mosaicDigest, setMosaicDigest] = useState<string | null>(null);
+  const [patchCount, setPatchCount] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const baseSizeRef = useRef({ width: 0, height: 0 });
+  const objectUrlRef = useRef<string | null>(null);
+
+  const publish = useCallback(async (canvas: HTMLCanvasElement) => {
+    const blob = await canvasToBlob(canvas);
+    const digest = await computeBytesDigest(await blob.arrayBuffer());
+    const url = URL.createObjectURL(blob);
+
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+    }
+    objectUrlRef.current = url;
+    setMosaicSrc(url);
+    setMosaicDigest(digest);
+  }, []);
+
+  const startMosaic = useCallback(async (baseImageSrc: string) => {
+    const base = await loadImage(baseImageSrc);
+    const canvas = document.createElement('canvas');
+    canvas.width = base.naturalWidth;
+    canvas.height = base.naturalHeight;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.drawImage(base, 0, 0);
+    canvasRef.current = canvas;
+    baseSizeRef.current = { width: base.naturalWidth, height: base.naturalHeight };
+    setPatchCount(0);
+    await publish(canvas);
+  }, [publish]);
+
+  // Grow the canvas (redrawing what is there) so a patch can land at its native resolution
+  const ensureScale = useCallback((requiredScale: number): HTMLCanvasElement => {
+    const canvas = canvasRef.current!;
+    const { width: baseWidth, height: baseHeight } = baseSizeRef.current;
+    const currentScale = canvas.width / baseWidth;
+    const maxScale = Math.sqrt(MAX_MOSAIC_PIXELS / (baseWidth * baseHeight));
+    const targetScale = Math.min(requiredScale, maxScale);
+
+    if (targetScale <= currentScale) return canvas;
+
+    const grown = document.createElement('canvas');
+    grown.width = Math.round(baseWidth * targetScale);
+    grown.height = Math.round(baseHeight * targetScale);
+    const ctx = grown.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(canvas, 0, 0, grown.width, grown.height);
+    canvasRef.current = grown;
+    return grown;
+  }, []);
+
+  const compositePatch = useCallback(async (patchSrc: string, cropArea: CropArea) => {
+    if (!canvasRef.current) {
+      throw new Error('Mosaic has not been started');
+    }
+
+    const patch = await loadImage(patchSrc);
+    // The crop was taken from the mosaic as it was then; place it by relative position
+    const region = normalizeViewport(cropArea, cropArea.sourceWidth, cropArea.sourceHeight);
+    const requiredScale = patch.naturalWidth / (region.width * baseSizeRef.current.width);
+    const canvas = ensureScale(requiredScale);
+
+    const left = Math.round(region.x * canvas.width);
+    const top = Math.round(region.y * canvas.height);
+    const width = Math.round(region.width * canvas.width);
+    const height = Math.round(region.height * canvas.height);
+
+    const patchCanvas = document.createElement('canvas');
+    patchCanvas.width = width;
+    patchCanvas.height = height;
+    const patchCtx = patchCanvas.getContext('2d');
+    const ctx = canvas.getContext('2d');
+
+    if (!patchCtx || !ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    patchCtx.imageSmoothingQuality = 'high';
+    patchCtx.drawImage(patch, 0, 0, width, height);
+
+    // Feather only edges that fall inside the mosaic; edges on its border stay hard
+    const feather = Math.round(Math.min(width, height) * PATCH_FEATHER);
+    featherCanvasEdges(patchCtx, {
+      left: left > 0 ? feather : 0,
+      top: top > 0 ? feather : 0,
+      right: left + width < canvas.width ? feather : 0,
+      bottom: top + height < canvas.height ? feather : 0
+    });
+
+    ctx.drawImage(patchCanvas, left, top);
+    setPatchCount(count => count + 1);
+    await publish(canvas);
+  }, [ensureScale, publish]);
+
+  const exportMosaic = useCallback((): string | null => {
+    return canvasRef.current ? canvasRef.current.toDataURL('image/png') : null;
+  }, []);
+
+  const stopMosaic = useCallback(() => {
+    canvasRef.current = null;
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+    setMosaicSrc(null);
+    setMosaicDigest(null);
+    setPatchCount(0);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (objectUrlRef.current) {
+        URL.revokeObjectURL(objectUrlRef.current);
+      }
+    };
+  }, []);
+
+  return {
+    mosaicSrc,
+    mosaicDigest,
+    patchCount,
+    isActive: mosaicSrc !== null,
+    startMosaic,
+    compositePatch,
+    exportMosaic,
+    stopMosaic
+  };
+};
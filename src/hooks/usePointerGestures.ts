@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Release velocity keeps this fraction of itself every 16ms
+const INERTIA_FRICTION = 0.92;
+// Slower releases (px per ms) just stop
+const MIN_INERTIA_SPEED = 0.05;
+// Only movement this recent counts towards the release velocity
+const VELOCITY_WINDOW_MS = 100;
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+// A touch that moves further than this is a pan, not a tap
+const TAP_SLOP = 10;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface MovementSample {
+  dx: number;
+  dy: number;
+  time: number;
+}
+
+interface GestureCallbacks {
+  onPan: (deltaX: number, deltaY: number) => void;
+  onPinch: (scaleFactor: number, center: Point) => void; // center in client coordinates
+  onDoubleTap: (point: Point) => void; // client coordinates
+}
+
+interface UsePointerGesturesReturn {
+  onPointerDown: (e: React.PointerEvent<HTMLElement>) => void;
+  onPointerMove: (e: React.PointerEvent<HTMLElement>) => void;
+  onPointerUp: (e: React.PointerEvent<HTMLElement>) => void;
+  onPointerCancel: (e: React.PointerEvent<HTMLElement>) => void;
+  cancelInertia: () => void;
+}
+
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+});
+
+const spread = (points: Point[]): number => {
+  return points.length < 2 ? 0 : Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
+};
+
+// Touch and pen gestures for a pan/zoom surface: one- or two-finger pan that coasts on release,
+// pinch about the fingers' midpoint, and double-tap. Mouse pointers are left to mouse handlers.
+export const usePointerGestures = (callbacks: GestureCallbacks): UsePointerGesturesReturn => {
+  const callbacksRef = useRef(callbacks);
+  const pointersRef = useRef<Map<number, Point>>(new Map());
+  const samplesRef = useRef<MovementSample[]>([]);
+  const tapRef = useRef<{ start: Point; isTap: boolean } | null>(null);
+  const lastTapRef = useRef<{ point: Point; time: number } | null>(null);
+  const inertiaFrameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  });
+
+  const cancelInertia = useCallback(() => {
+    if (inertiaFrameRef.current !== null) {
+      cancelAnimationFrame(inertiaFrameRef.current);
+      inertiaFrameRef.current = null;
+    }
+  }, []);
+
+  const startInertia = useCallback(() => {
+    const now = performance.now();
+    const recent = samplesRef.current.filter(sample => now - sample.time <= VELOCITY_WINDOW_MS);
+    samplesRef.current = [];
+    if (recent.length < 2) return;
+
+    const elapsed = Math.max(1, now - recent[0].time);
+    let velocityX = recent.reduce((sum, sample) => sum + sample.dx, 0) / elapsed;
+    let velocityY = recent.reduce((sum, sample) => sum + sample.dy, 0) / elapsed;
+    if (Math.hypot(velocityX, velocityY) < MIN_INERTIA_SPEED) return;
+
+    let lastTime = now;
+    const step = (time: number) => {
+      const dt = time - lastTime;
+      lastTime = time;
+      callbacksRef.current.onPan(velocityX * dt, velocityY * dt);
+
+      const decay = Math.pow(INERTIA_FRICTION, dt / 16);
+      velocityX *= decay;
+      velocityY *= decay;
+      inertiaFrameRef.current = Math.hypot(velocityX, velocityY) >= MIN_INERTIA_SPEED
+        ? requestAnimationFrame(step)
+        : null;
+    };
+    inertiaFrameRef.current = requestAnimationFrame(step);
+  }, []);
+
+  const onPointerDown = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    if (e.pointerType === 'mouse') return;
+
+    cancelInertia();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = { x: e.clientX, y: e.clientY };
+    pointersRef.current.set(e.pointerId, point);
+
+    // Only a lone finger can start a tap; a second one turns it into a gesture
+    tapRef.current = pointersRef.current.size === 1 ? { start: point, isTap: true } : null;
+    samplesRef.current = [];
+  }, [cancelInertia]);
+
+  const onPointerMove = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    if (!pointers.has(e.pointerId)) return;
+
+    const before = Array.from(pointers.values());
+    const point = { x: e.clientX, y: e.clientY };
+    pointers.set(e.pointerId, point);
+    const after = Array.from(pointers.values());
+
+    // Compare the same set of fingers before and after, so lifting one never causes a jump
+    const previousCenter = centroid(before);
+    const center = centroid(after);
+    const dx = center.x - previousCenter.x;
+    const dy = center.y - previousCenter.y;
+
+    if (tapRef.current && Math.hypot(point.x - tapRef.current.start.x, point.y - tapRef.current.start.y) > TAP_SLOP) {
+      tapRef.current.isTap = false;
+    }
+
+    if (dx !== 0 || dy !== 0) {
+      callbacksRef.current.onPan(dx, dy);
+      samplesRef.current.push({ dx, dy, time: performance.now() });
+    }
+
+    const previousSpread = spread(before);
+    if (after.length >= 2 && previousSpread > 0) {
+      callbacksRef.current.onPinch(spread(after) / previousSpread, center);
+    }
+  }, []);
+
+  const endPointer = useCallback((e: React.PointerEvent<HTMLElement>, isCancelled: boolean) => {
+    const pointers = pointersRef.current;
+    if (!pointers.delete(e.pointerId) || pointers.size > 0) return;
+
+    const tap = tapRef.current;
+    tapRef.current = null;
+
+    if (tap?.isTap && !isCancelled) {
+      samplesRef.current = [];
+      const now = performance.now();
+      const lastTap = lastTapRef.current;
+      if (
+        lastTap &&
+        now - lastTap.time <= DOUBLE_TAP_MS &&
+        Math.hypot(tap.start.x - lastTap.point.x, tap.start.y - lastTap.point.y) <= DOUBLE_TAP_DISTANCE
+      ) {
+        lastTapRef.current = null;
+        callbacksRef.current.onDoubleTap(tap.start);
+      } else {
+        lastTapRef.current = { point: tap.start, time: now };
+      }
+      return;
+    }
+
+    if (!isCancelled) {
+      startInertia();
+    }
+  }, [startInertia]);
+
+  const onPointerUp = useCallback((e: React.PointerEvent<HTMLElement>) => endPointer(e, false), [endPointer]);
+  const onPointerCancel = useCallback((e: React.PointerEvent<HTMLElement>) => endPointer(e, true), [endPointer]);
+
+  useEffect(() => cancelInertia, [cancelInertia]);
+
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel,
+    cancelInertia
+  };
+};
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { enhancementService } from '../services/enhancementService';
+import { isEnhancementCancelled } from '../services/enhancementErrors';
+
+export interface PrefetchCandidate {
+  key: string; // cache key the result is stored under; identifies the job
+  run: (requestId: string) => Promise<void>;
+}
+
+interface PrefetchJob {
+  key: string;
+  requestId: string;
+}
+
+interface UsePrefetcherReturn {
+  spent: number; // requests started since the last reset
+  isPrefetching: boolean;
+  schedule: (candidates: PrefetchCandidate[]) => void;
+  cancel: () => void;
+  reset: () => void;
+}
+
+// Runs speculative enhancements one at a time, in the order given, until `budget` requests have been
+// spent. Each schedule() replaces the queue; the job in flight is cancelled unless it is still wanted.
+// A key is attempted once per reset, so failures are not retried behind the user's back.
+export const usePrefetcher = (budget: number): UsePrefetcherReturn => {
+  const [spent, setSpent] = useState(0);
+  const [isPrefetching, setIsPrefetching] = useState(false);
+  const budgetRef = useRef(budget);
+  const spentRef = useRef(0);
+  const queueRef = useRef<PrefetchCandidate[]>([]);
+  const activeJobRef = useRef<PrefetchJob | null>(null);
+  const attemptedRef = useRef<Set<string>>(new Set());
+  const runNextRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    budgetRef.current = budget;
+  });
+
+  const cancelActiveJob = useCallback(() => {
+    const job = activeJobRef.current;
+    if (!job) return;
+    enhancementService.cancelRequest(job.requestId);
+    // Cancelled before it could finish, so it may be wanted again later
+    attemptedRef.current.delete(job.key);
+    activeJobRef.current = null;
+    setIsPrefetching(false);
+  }, []);
+
+  const runNext = useCallback(() => {
+    if (activeJobRef.current || spentRef.current >= budgetRef.current) return;
+
+    let candidate = queueRef.current.shift();
+    while (candidate && attemptedRef.current.has(candidate.key)) {
+      candidate = queueRef.current.shift();
+    }
+    if (!candidate) return;
+
+    const job: PrefetchJob = { key: candidate.key, requestId: enhancementService.generateRequestId() };
+    activeJobRef.current = job;
+    attemptedRef.current.add(job.key);
+    spentRef.current += 1;
+    setSpent(spentRef.current);
+    setIsPrefetching(true);
+
+    candidate.run(job.requestId)
+      .catch(error => {
+        if (!isEnhancementCancelled(error)) {
+          console.warn('Prefetch failed:', error);
+        }
+      })
+      .finally(() => {
+        // A cancelled job has already been replaced
+        if (activeJobRef.current !== job) return;
+        activeJobRef.current = null;
+        setIsPrefetching(false);
+        runNextRef.current();
+      });
+  }, []);
+
+  useEffect(() => {
+    runNextRef.current = runNext;
+  }, [runNext]);
+
+  const schedule = useCallback((candidates: PrefetchCandidate[]) => {
+    const activeKey = activeJobRef.current?.key;
+    if (activeKey && !candidates.some(candidate => candidate.key === activeKey)) {
+      cancelActiveJob();
+    }
+    queueRef.current = candidates.filter(candidate => candidate.key !== activeJobRef.current?.key);
+    runNext();
+  }, [cancelActiveJob, runNext]);
+
+  const cancel = useCallback(() => {
+    queueRef.current = [];
+    cancelActiveJob();
+  }, [cancelActiveJob]);
+
+  const reset = useCallback(() => {
+    cancel();
+    attemptedRef.current.clear();
+    spentRef.current = 0;
+    setSpent(0);
+  }, [cancel]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    spent,
+    isPrefetching,
+    schedule,
+    cancel,
+    reset
+  };
+};
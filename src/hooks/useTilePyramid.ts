@@ -0,0 +1,58 @@
+import { useState, useCallback } from 'react';
+import type { ViewportBounds } from '../types/enhancement';
+import { TilePyramid } from '../utils/tilePyramid';
+import { loadImage } from '../utils/viewport';
+
+interface UseTilePyramidReturn {
+  pyramid: TilePyramid | null;
+  version: number; // bumps whenever layers are added, so renderers know to redraw
+  baseDigest: string | null;
+  startPyramid: (baseImageSrc: string, baseDigest: string) => Promise<void>;
+  addPyramidLayer: (layerId: string, imageSrc: string, worldRect: ViewportBounds) => Promise<boolean>;
+  stopPyramid: () => void;
+}
+
+export const useTilePyramid = (): UseTilePyramidReturn => {
+  const [pyramid, setPyramid] = useState<TilePyramid | null>(null);
+  const [baseDigest, setBaseDigest] = useState<string | null>(null);
+  const [layerIds, setLayerIds] = useState<Set<string>>(new Set());
+  const [version, setVersion] = useState(0);
+
+  const startPyramid = useCallback(async (baseImageSrc: string, digest: string) => {
+    const base = await loadImage(baseImageSrc);
+    setPyramid(new TilePyramid(base));
+    setBaseDigest(digest);
+    setLayerIds(new Set());
+    setVersion(v => v + 1);
+  }, []);
+
+  // Returns false when the layer was already present (e.g. replayed from the cache)
+  const addPyramidLayer = useCallback(async (
+    layerId: string,
+    imageSrc: string,
+    worldRect: ViewportBounds
+  ): Promise<boolean> => {
+    if (!pyramid || layerIds.has(layerId)) return false;
+
+    const image = await loadImage(imageSrc);
+    pyramid.addLayer(image, worldRect);
+    setLayerIds(prev => new Set(prev).add(layerId));
+    setVersion(v => v + 1);
+    return true;
+  }, [pyramid, layerIds]);
+
+  const stopPyramid = useCallback(() => {
+    setPyramid(null);
+    setBaseDigest(null);
+    setLayerIds(new Set());
+  }, []);
+
+  return {
+    pyramid,
+    version,
+    baseDigest,
+    startPyramid,
+    addPyramidLayer,
+    stopPyramid
+  };
+};
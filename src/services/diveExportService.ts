@@ -0,0 +1,171 @@
+import type { ExplorationNode } from '../types/exploration';
+import { encodeApng } from '../utils/apng';
+import { delay } from '../utils/async';
+import { loadImage } from '../utils/viewport';
+import { diveEasings, renderDiveFrame, type DiveEasing, type DiveSegment } from '../utils/zoomDive';
+
+export type DiveFormat = 'webm' | 'apng';
+
+export interface DiveExportOptions {
+  format: DiveFormat;
+  secondsPerLayer: number;
+  easing: DiveEasing;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export const DEFAULT_DIVE_EXPORT_OPTIONS: DiveExportOptions = {
+  format: 'webm',
+  secondsPerLayer: 3,
+  easing: 'ease-in-out',
+  width: 1280,
+  height: 720,
+  fps: 30
+};
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const canvasToPngBytes = (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Failed to encode animation frame'));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+};
+
+class DiveExportService {
+  isFormatSupported(format: DiveFormat): boolean {
+    if (format === 'apng') return true;
+    return typeof MediaRecorder !== 'undefined' &&
+      WEBM_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+  }
+
+  // Walk a root-to-leaf lineage, zooming from each layer into the region its child enhanced
+  async exportDive(
+    path: ExplorationNode[],
+    options: DiveExportOptions,
+    signal: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    if (path.length < 2) {
+      throw new Error('A dive needs at least one enhanced layer');
+    }
+    if (!this.isFormatSupported(options.format)) {
+      throw new Error(`${options.format.toUpperCase()} export is not supported in this browser`);
+    }
+
+    const segments = await this.buildSegments(path);
+    signal.throwIfAborted();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    const framesPerSegment = Math.max(1, Math.round(options.secondsPerLayer * options.fps));
+    const totalFrames = segments.length * framesPerSegment + 1;
+    const ease = diveEasings[options.easing];
+
+    // Frame i of the whole dive; the final frame is the last child in full
+    const drawFrame = (index: number) => {
+      const segmentIndex = Math.min(Math.floor(index / framesPerSegment), segments.length - 1);
+      const t = (index - segmentIndex * framesPerSegment) / framesPerSegment;
+      renderDiveFrame(ctx, segments[segmentIndex], ease(Math.min(1, t)));
+    };
+
+    return options.format === 'webm'
+      ? this.recordWebm(canvas, drawFrame, totalFrames, options.fps, signal, onProgress)
+      : this.renderApng(canvas, drawFrame, totalFrames, options.fps, signal, onProgress);
+  }
+
+  private async buildSegments(path: ExplorationNode[]): Promise<DiveSegment[]> {
+    const images = await Promise.all(path.map(node => loadImage(node.image)));
+    return path.slice(1).map((node, index): DiveSegment => {
+      const parent = images[index];
+      const { cropArea } = node;
+      // Crops are recorded against the parent's size at the time; rescale in case it differs
+      const scaleX = cropArea ? parent.naturalWidth / cropArea.sourceWidth : 1;
+      const scaleY = cropArea ? parent.naturalHeight / cropArea.sourceHeight : 1;
+      return {
+        parent,
+        child: images[index + 1],
+        target: cropArea
+          ? { x: cropArea.x * scaleX, y: cropArea.y * scaleY, width: cropArea.width * scaleX, height: cropArea.height * scaleY }
+          : { x: 0, y: 0, width: parent.naturalWidth, height: parent.naturalHeight }
+      };
+    });
+  }
+
+  // MediaRecorder timestamps frames by wall clock, so this plays the dive back in real time
+  private async recordWebm(
+    canvas: HTMLCanvasElement,
+    drawFrame: (index: number) => void,
+    totalFrames: number,
+    fps: number,
+    signal: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    const mimeType = WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))!;
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    drawFrame(0);
+    recorder.start();
+    try {
+      for (let index = 0; index < totalFrames; index++) {
+        drawFrame(index);
+        track.requestFrame();
+        onProgress?.(Math.round(((index + 1) / totalFrames) * 100));
+        await delay(1000 / fps, signal);
+      }
+    } finally {
+      recorder.stop();
+      await stopped;
+      track.stop();
+    }
+
+    return new Blob(chunks, { type: 'video/webm' });
+  }
+
+  private async renderApng(
+    canvas: HTMLCanvasElement,
+    drawFrame: (index: number) => void,
+    totalFrames: number,
+    fps: number,
+    signal: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    const frames: Uint8Array[] = [];
+    for (let index = 0; index < totalFrames; index++) {
+      signal.throwIfAborted();
+      drawFrame(index);
+      frames.push(await canvasToPngBytes(canvas));
+      // Encoding is the slow part; leave the last few percent for assembly
+      onProgress?.(Math.round(((index + 1) / totalFrames) * 95));
+    }
+
+    const blob = encodeApng(frames, 1000 / fps);
+    onProgress?.(100);
+    return blob;
+  }
+}
+
+// Export a singleton instance
+export const diveExportService = new DiveExportService();
@@ -0,0 +1,61 @@
+import type { EnhancementErrorInfo, EnhancementErrorKind } from '../types/enhancement';
+
+export class EnhancementCancelledError extends Error {
+  readonly requestId: string;
+
+  constructor(requestId: string) {
+    super('Enhancement cancelled');
+    this.name = 'EnhancementCancelledError';
+    this.requestId = requestId;
+  }
+}
+
+export const isEnhancementCancelled = (error: unknown): error is EnhancementCancelledError => {
+  return error instanceof EnhancementCancelledError;
+};
+
+interface EnhancementErrorOptions {
+  retryable?: boolean;
+  status?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class EnhancementError extends Error {
+  readonly kind: EnhancementErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  attempts = 1;
+
+  constructor(kind: EnhancementErrorKind, message: string, options: EnhancementErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'EnhancementError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  toInfo(): EnhancementErrorInfo {
+    return {
+      kind: this.kind,
+      message: this.message,
+      retryable: this.retryable,
+      attempts: this.attempts,
+      status: this.status
+    };
+  }
+}
+
+export const toEnhancementErrorInfo = (error: unknown): EnhancementErrorInfo => {
+  if (error instanceof EnhancementError) {
+    return error.toInfo();
+  }
+  return {
+    kind: 'unknown',
+    message: error instanceof Error ? error.message : 'Unknown enhancement error',
+    retryable: false,
+    attempts: 1
+  };
+};
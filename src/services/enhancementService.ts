@@ -0,0 +1,257 @@
+import type { CroppedImage, CropArea, EnhancementContext, EnhancementProgressCallback, EnhancementProvider } from '../types/enhancement';
+import { mapWithConcurrency } from '../utils/async';
+import { readStorage, writeStorage } from '../utils/storage';
+import { blendTiles, DEFAULT_TILING_OPTIONS, planTiles, type TilingOptions } from '../utils/tiling';
+import { cropImageFromCanvas, cropNormalizedRegion, isFullRegion, renderContextOverview } from '../utils/viewport';
+import { EnhancementCancelledError, EnhancementError } from './enhancementErrors';
+import { geminiService } from './geminiService';
+import { localEnhancementService } from './localEnhancementService';
+
+const PROVIDER_STORAGE_KEY = 'banana-scope:provider';
+
+// Send the source image (with the crop outlined) and a summary of earlier layers alongside a crop
+export interface ContextOptions {
+  lineage: string;
+  overviewMaxDimension?: number;
+}
+
+class EnhancementService {
+  private providers: Map<string, EnhancementProvider> = new Map();
+  private activeProviderId: string | null = null;
+  private abortControllers: Map<string, AbortController> = new Map();
+
+  registerProvider(provider: EnhancementProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  getProviders(): EnhancementProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getActiveProvider(): EnhancementProvider {
+    const active = this.activeProviderId ? this.providers.get(this.activeProviderId) : undefined;
+    if (active) return active;
+
+    // Fall back to the first provider that can run in this environment
+    const fallback = this.getProviders().find(provider => provider.isAvailable()) ?? this.getProviders()[0];
+    if (!fallback) {
+      throw new Error('No enhancement providers registered');
+    }
+    return fallback;
+  }
+
+  setActiveProvider(providerId: string): void {
+    if (!this.providers.has(providerId)) {
+      throw new Error(`Unknown enhancement provider: ${providerId}`);
+    }
+    this.activeProviderId = providerId;
+    writeStorage(PROVIDER_STORAGE_KEY, providerId);
+  }
+
+  // Crop, enhance and un-letterbox a single frame; progress runs 10 -> 80ish
+  private async enhanceFrame(
+    provider: EnhancementProvider,
+    originalImageSrc: string,
+    cropArea: CropArea,
+    prompt: string,
+    contextOptions: ContextOptions | null,
+    signal: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<{ input: CroppedImage; output: string }> {
+    onProgress?.(10); // Starting crop
+
+    // Crop the image to the specified area, letterboxed to the viewfinder ratio
+    const cropped = await cropImageFromCanvas(originalImageSrc, cropArea);
+    const context: EnhancementContext | undefined = contextOptions
+      ? {
+          overview: await renderContextOverview(originalImageSrc, cropArea, contextOptions.overviewMaxDimension),
+          lineage: contextOptions.lineage
+        }
+      : undefined;
+    signal.throwIfAborted();
+
+    onProgress?.(30); // Crop completed, starting enhancement
+
+    const enhancedFrame = await provider.enhance({
+      imageData: cropped.data,
+      cropArea,
+      prompt,
+      context,
+      signal,
+      onProgress
+    });
+
+    // A provider may resolve after cancellation; never hand that result back
+    signal.throwIfAborted();
+
+    // Strip the letterbox so the result covers exactly the requested crop
+    const output = isFullRegion(cropped.contentRegion)
+      ? enhancedFrame
+      : await cropNormalizedRegion(enhancedFrame, cropped.contentRegion);
+
+    return { input: cropped, output };
+  }
+
+  // Owns the abort controller for `requestId` and normalizes whatever `work` throws
+  private async runRequest<T>(requestId: string, work: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    // Create abort controller for this request
+    const abortController = new AbortController();
+    this.abortControllers.set(requestId, abortController);
+    // `work` gets a child signal that also fires once the request settles, so when one tile or
+    // variant fails the siblings still in flight stop instead of billing for discarded results
+    const workController = new AbortController();
+    const abortWork = () => workController.abort(abortController.signal.reason);
+    abortController.signal.addEventListener('abort', abortWork, { once: true });
+
+    try {
+      return await work(workController.signal);
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        throw new EnhancementCancelledError(requestId);
+      }
+      if (error instanceof EnhancementError) {
+        throw error;
+      }
+      throw new EnhancementError(
+        'unknown',
+        error instanceof Error ? error.message : 'Unknown enhancement error',
+        { cause: error }
+      );
+    } finally {
+      abortController.signal.removeEventListener('abort', abortWork);
+      workController.abort();
+      // Clean up abort controller
+      this.abortControllers.delete(requestId);
+    }
+  }
+
+  async enhanceImageCrop(
+    originalImageSrc: string,
+    cropArea: CropArea,
+    prompt: string,
+    context: ContextOptions | null,
+    requestId: string,
+    onProgress?: EnhancementProgressCallback
+  ): Promise<string> {
+    return this.runRequest(requestId, async signal => {
+      const provider = this.getActiveProvider();
+      const { input, output } = await this.enhanceFrame(provider, originalImageSrc, cropArea, prompt, context, signal, onProgress);
+
+      onProgress?.(100); // Complete
+
+      console.log(`Enhancement complete (${provider.id}/${provider.model}, ${input.aspectRatio.toFixed(3)} ratio, ${cropArea.width}x${cropArea.height} crop)`);
+
+      return output;
+    });
+  }
+
+  // Split a large crop into overlapping tiles, enhance them with bounded concurrency and
+  // feather them back together. Crops that fit in one tile take the single-frame path.
+  async enhanceImageTiled(
+    originalImageSrc: string,
+    cropArea: CropArea,
+    prompt: string,
+    context: ContextOptions | null,
+    requestId: string,
+    onProgress?: EnhancementProgressCallback,
+    options: Partial<TilingOptions> = {}
+  ): Promise<string> {
+    const tilingOptions = { ...DEFAULT_TILING_OPTIONS, ...options };
+    const tiles = planTiles(cropArea, tilingOptions);
+
+    if (tiles.length === 1) {
+      return this.enhanceImageCrop(originalImageSrc, cropArea, prompt, context, requestId, onProgress);
+    }
+
+    return this.runRequest(requestId, async signal => {
+      const provider = this.getActiveProvider();
+      const tileProgress = new Array<number>(tiles.length).fill(0);
+      let completed = 0;
+
+      // Tiles account for 0-90%, blending for the rest
+      const reportProgress = () => {
+        const average = tileProgress.reduce((sum, value) => sum + value, 0) / tiles.length;
+        onProgress?.(Math.round(average * 0.9), { completed, total: tiles.length });
+      };
+
+      const enhancedTiles = await mapWithConcurrency(tiles, tilingOptions.concurrency, async (tile, index) => {
+        const { output } = await this.enhanceFrame(provider, originalImageSrc, tile, prompt, context, signal, progress => {
+          tileProgress[index] = progress;
+          reportProgress();
+        });
+        tileProgress[index] = 100;
+        completed++;
+        reportProgress();
+        return output;
+      });
+
+      const blended = await blendTiles(cropArea, tiles, enhancedTiles, tilingOptions.maxOutputDimension);
+      signal.throwIfAborted();
+
+      onProgress?.(100, { completed, total: tiles.length }); // Complete
+      console.log(`Tiled enhancement complete (${provider.id}/${provider.model}): ${tiles.length} tiles`);
+
+      return blended;
+    });
+  }
+
+  // Enhance the same crop `count` times so the user can choose; each call may imagine detail
+  // differently. Variants always take the single-frame path.
+  async enhanceImageVariants(
+    originalImageSrc: string,
+    cropArea: CropArea,
+    prompt: string,
+    context: ContextOptions | null,
+    requestId: string,
+    count: number,
+    onProgress?: EnhancementProgressCallback,
+    concurrency: number = 2
+  ): Promise<string[]> {
+    return this.runRequest(requestId, async signal => {
+      const provider = this.getActiveProvider();
+      const variantProgress = new Array<number>(count).fill(0);
+      const reportProgress = () => {
+        onProgress?.(Math.round(variantProgress.reduce((sum, value) => sum + value, 0) / count));
+      };
+
+      const variants = await mapWithConcurrency(
+        Array.from({ length: count }, (_, index) => index),
+        concurrency,
+        async index => {
+          const { output } = await this.enhanceFrame(provider, originalImageSrc, cropArea, prompt, context, signal, progress => {
+            variantProgress[index] = progress;
+            reportProgress();
+          });
+          variantProgress[index] = 100;
+          reportProgress();
+          return output;
+        }
+      );
+
+      console.log(`Variant enhancement complete (${provider.id}/${provider.model}): ${count} candidates`);
+      return variants;
+    });
+  }
+
+  cancelRequest(requestId: string): void {
+    const controller = this.abortControllers.get(requestId);
+    if (controller) {
+      controller.abort();
+      this.abortControllers.delete(requestId);
+    }
+  }
+
+  generateRequestId(): string {
+    return `enhance_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+// Export a singleton instance with the built-in providers registered
+export const enhancementService = new EnhancementService();
+enhancementService.registerProvider(geminiService);
+enhancementService.registerProvider(localEnhancementService);
+
+const initialProviderId = readStorage(PROVIDER_STORAGE_KEY) ?? import.meta.env.VITE_ENHANCEMENT_PROVIDER;
+if (initialProviderId && enhancementService.getProviders().some(provider => provider.id === initialProviderId)) {
+  enhancementService.setActiveProvider(initialProviderId);
+}
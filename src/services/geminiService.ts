@@ -1,160 +1,211 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { CropArea } from '../types/enhancement';
-import { cropImageFromCanvas } from '../utils/viewport';
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  type GenerateContentResult
+} from '@google/generative-ai';
+import type { EnhancementProvider, EnhancementRequest } from '../types/enhancement';
+import { backoffDelay, delay, RateLimiter } from '../utils/async';
+import { EnhancementError } from './enhancementErrors';
 
 const GEMINI_API_KEY = import.meta.env.VITE_GOOGLE_AI_API_KEY;
+const DEFAULT_MODEL = 'gemini-2.5-flash-image-preview';
+const DEFAULT_REQUESTS_PER_MINUTE = Number(import.meta.env.VITE_GEMINI_REQUESTS_PER_MINUTE) || 10;
 
-// Debug helper to save images to file system
-const saveDebugImage = async (base64Data: string, filename: string): Promise<void> => {
-  try {
-    // Convert base64 to blob
-    const base64WithoutPrefix = base64Data.includes(',') ? base64Data.split(',')[1] : base64Data;
-    const byteCharacters = atob(base64WithoutPrefix);
-    const byteNumbers = new Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000
+};
+
+// Google RPC errors carry a RetryInfo detail such as { retryDelay: "31s" } on 429s
+const parseRetryAfterMs = (error: GoogleGenerativeAIFetchError): number | undefined => {
+  for (const detail of error.errorDetails ?? []) {
+    const retryDelay = detail.retryDelay;
+    if (typeof retryDelay === 'string') {
+      const seconds = parseFloat(retryDelay);
+      if (!Number.isNaN(seconds)) return seconds * 1000;
+    }
+  }
+  return undefined;
+};
+
+const classifyError = (error: unknown): EnhancementError => {
+  if (error instanceof EnhancementError) return error;
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const status = error.status;
+    const message = error.message.toLowerCase();
+
+    if (status === 429 || message.includes('resource_exhausted') || message.includes('quota')) {
+      return new EnhancementError('quota', 'Gemini rate limit or quota exceeded', {
+        retryable: true,
+        status,
+        retryAfterMs: parseRetryAfterMs(error),
+        cause: error
+      });
+    }
+    if (status === 401 || status === 403 || message.includes('api key not valid') || message.includes('api_key_invalid')) {
+      return new EnhancementError('invalid-key', 'Gemini rejected the API key', { status, cause: error });
+    }
+    if (status !== undefined && status >= 500) {
+      return new EnhancementError('transient', `Gemini is temporarily unavailable (${status})`, {
+        retryable: true,
+        status,
+        cause: error
+      });
+    }
+    return new EnhancementError('unknown', error.message, { status, cause: error });
+  }
+
+  if (error instanceof Error) {
+    // The SDK wraps network failures ("Error fetching from ...") without a status
+    if (!(error instanceof GoogleGenerativeAIAbortError) && /fetch|network/i.test(error.message)) {
+      return new EnhancementError('transient', 'Network error while contacting Gemini', {
+        retryable: true,
+        cause: error
+      });
+    }
+    return new EnhancementError('unknown', error.message, { cause: error });
+  }
+
+  return new EnhancementError('unknown', 'Unknown enhancement error', { cause: error });
+};
+
+const extractImage = (response: GenerateContentResult): string => {
+  const blockReason = response.response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new EnhancementError('safety', `Gemini blocked the request (${blockReason})`);
+  }
+
+  // Extract the enhanced image from response
+  const candidates = response.response.candidates;
+  if (!candidates || candidates.length === 0) {
+    throw new EnhancementError('no-image', 'No enhanced image generated');
+  }
+
+  const [candidate] = candidates;
+  if (candidate.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw new EnhancementError('safety', `Gemini withheld the image (${candidate.finishReason})`);
+  }
+
+  for (const part of candidate.content?.parts ?? []) {
+    if (part.inlineData && part.inlineData.data) {
+      // Create data URL for the enhanced image
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
     }
-    const byteArray = new Uint8Array(byteNumbers);
-    const blob = new Blob([byteArray], { type: 'image/png' });
-    
-    // Create download link
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    console.log(`Debug image saved: ${filename}`);
-  } catch (error) {
-    console.error('Failed to save debug image:', error);
   }
+
+  throw new EnhancementError('no-image', 'No image data found in AI response');
 };
 
-class GeminiEnhancementService {
+export class GeminiEnhancementService implements EnhancementProvider {
+  readonly id = 'gemini';
+  readonly label = 'Google Gemini';
+  readonly model: string;
+  readonly billable = true;
+  private apiKey: string | undefined;
   private ai: GoogleGenerativeAI;
-  private abortControllers: Map<string, AbortController> = new Map();
+  private retryOptions: RetryOptions;
+  private rateLimiter: RateLimiter;
+
+  constructor(
+    apiKey: string | undefined = GEMINI_API_KEY,
+    model: string = DEFAULT_MODEL,
+    requestsPerMinute: number = DEFAULT_REQUESTS_PER_MINUTE,
+    retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.ai = new GoogleGenerativeAI(apiKey ?? '');
+    this.retryOptions = retryOptions;
+    this.rateLimiter = new RateLimiter(requestsPerMinute);
+  }
 
-  constructor() {
-    this.ai = new GoogleGenerativeAI(GEMINI_API_KEY);
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
   }
 
-  async enhanceImageCrop(
-    originalImageSrc: string,
-    cropArea: CropArea,
-    requestId: string,
-    onProgress?: (progress: number) => void
-  ): Promise<string> {
-    try {
-      // Create abort controller for this request
-      const abortController = new AbortController();
-      this.abortControllers.set(requestId, abortController);
-
-      onProgress?.(10); // Starting crop
-
-      // Crop the image to the specified area
-      const croppedImageData = await cropImageFromCanvas(originalImageSrc, cropArea);
-      
-      // Debug: Save input image
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const inputFilename = `debug-images/input_${timestamp}_${cropArea.width}x${cropArea.height}.png`;
-      await saveDebugImage(croppedImageData, inputFilename);
-      console.log(`Saved input image: ${inputFilename} (${cropArea.width}x${cropArea.height}, 4:3 ratio)`);
-      
-      onProgress?.(30); // Crop completed, starting AI enhancement
-
-      // Convert to base64 format expected by Gemini
-      const base64Data = croppedImageData.split(',')[1];
-
-      const prompt = [
-        { 
-          text: "Enhance and reimagine this image with increased quality and detail. Focus on sharpening edges, improving texture detail, and adding realistic details that would be visible at higher magnification. Maintain the original style and content while making it appear as if taken with a higher resolution camera." 
-        },
-        {
-          inlineData: {
-            mimeType: "image/png",
-            data: base64Data,
-          },
+  setRequestsPerMinute(requestsPerMinute: number): void {
+    this.rateLimiter.setRequestsPerMinute(requestsPerMinute);
+  }
+
+  async enhance({ imageData, prompt: instructions, context, signal, onProgress }: EnhancementRequest): Promise<string> {
+    if (!this.apiKey) {
+      throw new EnhancementError('invalid-key', 'VITE_GOOGLE_AI_API_KEY is not set');
+    }
+
+    // Convert to base64 format expected by Gemini
+    const base64Data = imageData.split(',')[1];
+
+    const prompt = [
+      // Scene first, so the model knows what the crop belongs to before it is asked to enhance it
+      ...(context
+        ? [
+            {
+              text: `For context only: this is the wider scene, with the region to enhance outlined in red. ${context.lineage}`.trim()
+            },
+            {
+              inlineData: {
+                mimeType: "image/png",
+                data: context.overview.split(',')[1],
+              },
+            },
+            {
+              text: "Enhance only the following crop of the outlined region, keeping it consistent with the scene above. Return just the enhanced crop, without the outline."
+            },
+          ]
+        : []),
+      {
+        text: instructions
+      },
+      {
+        inlineData: {
+          mimeType: "image/png",
+          data: base64Data,
         },
-      ];
+      },
+    ];
 
-      onProgress?.(50); // AI processing started
+    const model = this.ai.getGenerativeModel({ model: this.model });
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.retryOptions;
 
-      // Check if request was aborted
-      if (abortController.signal.aborted) {
-        throw new Error('Request was aborted');
-      }
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.rateLimiter.acquire(signal);
 
-      const model = this.ai.getGenerativeModel({ model: "gemini-2.5-flash-image-preview" });
-      const response = await model.generateContent(prompt);
+        onProgress?.(50); // AI processing started
 
-      onProgress?.(80); // AI processing completed
+        // Passing the signal lets the SDK abort the underlying fetch, not just ignore its result
+        const response = await model.generateContent(prompt, { signal });
 
-      // Debug: Log the full response structure
-      console.log('Full Gemini response:', JSON.stringify(response, null, 2));
-      
-      // Extract the enhanced image from response
-      const candidates = response.response.candidates;
-      console.log('Candidates:', candidates);
-      
-      if (!candidates || candidates.length === 0) {
-        throw new Error('No enhanced image generated');
-      }
+        onProgress?.(80); // AI processing completed
 
-      const parts = candidates[0].content.parts;
-      console.log('Parts:', parts);
-      
-      for (const part of parts) {
-        console.log('Processing part:', part);
-        if (part.inlineData && part.inlineData.data) {
-          onProgress?.(100); // Complete
-          
-          // Clean up abort controller
-          this.abortControllers.delete(requestId);
-          
-          // Create data URL for the enhanced image
-          const enhancedImageData = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          
-          // Debug: Save output image with same timestamp
-          const outputFilename = `debug-images/output_${timestamp}_enhanced.png`;
-          await saveDebugImage(enhancedImageData, outputFilename);
-          console.log(`Saved output image: ${outputFilename}`);
-          console.log(`Enhancement complete: ${inputFilename} -> ${outputFilename}`);
-          
-          // Return enhanced image
-          return enhancedImageData;
-        }
-      }
+        return extractImage(response);
+      } catch (error) {
+        signal.throwIfAborted();
 
-      throw new Error('No image data found in AI response');
+        const classified = classifyError(error);
+        classified.attempts = attempt + 1;
 
-    } catch (error) {
-      // Clean up abort controller
-      this.abortControllers.delete(requestId);
-      
-      if (error instanceof Error) {
-        if (error.message.includes('aborted')) {
-          throw new Error('Enhancement cancelled');
+        if (!classified.retryable || attempt + 1 >= maxAttempts) {
+          throw classified;
         }
-        throw new Error(`Enhancement failed: ${error.message}`);
-      }
-      throw new Error('Unknown enhancement error');
-    }
-  }
 
-  cancelRequest(requestId: string): void {
-    const controller = this.abortControllers.get(requestId);
-    if (controller) {
-      controller.abort();
-      this.abortControllers.delete(requestId);
+        const wait = Math.max(classified.retryAfterMs ?? 0, backoffDelay(attempt, baseDelayMs, maxDelayMs));
+        console.warn(`Gemini ${classified.kind} error, retrying in ${wait}ms (attempt ${attempt + 1}/${maxAttempts})`);
+        await delay(wait, signal);
+      }
     }
   }
-
-  generateRequestId(): string {
-    return `enhance_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
 }
 
 // Export a singleton instance
@@ -0,0 +1,93 @@
+import type { EnhancementProvider, EnhancementRequest } from '../types/enhancement';
+import { loadImage } from '../utils/viewport';
+
+const MAX_OUTPUT_DIMENSION = 2048;
+
+// Convolve the image with a 3x3 sharpening kernel (center 1 + 4a, edges -a)
+const sharpenImageData = (imageData: ImageData, amount: number): ImageData => {
+  const { width, height, data } = imageData;
+  const output = new ImageData(width, height);
+  const out = output.data;
+  const center = 1 + 4 * amount;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const up = (Math.max(0, y - 1) * width + x) * 4;
+      const down = (Math.min(height - 1, y + 1) * width + x) * 4;
+      const left = (y * width + Math.max(0, x - 1)) * 4;
+      const right = (y * width + Math.min(width - 1, x + 1)) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        const value = center * data[i + c] -
+          amount * (data[up + c] + data[down + c] + data[left + c] + data[right + c]);
+        out[i + c] = Math.min(255, Math.max(0, value));
+      }
+      out[i + 3] = data[i + 3];
+    }
+  }
+
+  return output;
+};
+
+export class LocalEnhancementService implements EnhancementProvider {
+  readonly id = 'local';
+  readonly label = 'Local (offline)';
+  readonly model: string;
+  readonly billable = false;
+  private scale: number;
+  private sharpenAmount: number;
+
+  constructor(scale: number = 2, sharpenAmount: number = 0.5) {
+    this.scale = scale;
+    this.sharpenAmount = sharpenAmount;
+    this.model = `canvas-upscale-x${scale}`;
+  }
+
+  isAvailable(): boolean {
+    return typeof document !== 'undefined';
+  }
+
+  async enhance({ imageData, signal, onProgress }: EnhancementRequest): Promise<string> {
+    const img = await loadImage(imageData);
+
+    signal.throwIfAborted();
+
+    onProgress?.(50); // Source decoded, starting upscale
+
+    // Upscale, but keep the longest side within a sane canvas size
+    const scale = Math.min(
+      this.scale,
+      MAX_OUTPUT_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight)
+    );
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+
+    onProgress?.(70); // Upscale completed, sharpening
+
+    signal.throwIfAborted();
+
+    const sharpened = sharpenImageData(ctx.getImageData(0, 0, width, height), this.sharpenAmount);
+    ctx.putImageData(sharpened, 0, 0);
+
+    onProgress?.(80); // Sharpening completed
+
+    return canvas.toDataURL('image/png');
+  }
+}
+
+// Export a singleton instance
+export const localEnhancementService = new LocalEnhancementService();
@@ -0,0 +1,189 @@
+import type { EnhancedImage, PersistentCacheEntry } from '../types/enhancement';
+
+const DB_NAME = 'banana-scope';
+const DB_VERSION = 2;
+const ENTRIES_STORE = 'entries'; // lightweight metadata, safe to list
+const IMAGES_STORE = 'images'; // full EnhancedImage payloads, read on demand
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+
+interface StoredImage {
+  key: string;
+  image: EnhancedImage;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Version 1 keyed images by a data-URL prefix and stored the source inline; start over
+      for (const storeName of Array.from(db.objectStoreNames)) {
+        db.deleteObjectStore(storeName);
+      }
+      const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+      entries.createIndex('sourceDigest', 'sourceDigest');
+      entries.createIndex('lastAccessedAt', 'lastAccessedAt');
+      db.createObjectStore(IMAGES_STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+class PersistentImageCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private maxBytes: number;
+
+  constructor(maxBytes: number = DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  getMaxBytes(): number {
+    return this.maxBytes;
+  }
+
+  async setMaxBytes(maxBytes: number): Promise<void> {
+    this.maxBytes = maxBytes;
+    await this.enforceBudget();
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase().catch(error => {
+        // Allow a later call to retry opening
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async put(image: EnhancedImage): Promise<PersistentCacheEntry> {
+    const db = await this.getDatabase();
+    const entry: PersistentCacheEntry = {
+      key: image.id,
+      sourceDigest: image.sourceDigest,
+      zoomLevel: image.zoomLevel,
+      viewport: image.viewport,
+      // Strings are the bulk of the record; this is an estimate, not the on-disk size
+      byteSize: image.data.length,
+      rejected: image.rejected,
+      createdAt: image.createdAt,
+      lastAccessedAt: Date.now()
+    };
+
+    const transaction = db.transaction([ENTRIES_STORE, IMAGES_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    transaction.objectStore(IMAGES_STORE).put({ key: entry.key, image } satisfies StoredImage);
+    await completeTransaction(transaction);
+
+    await this.enforceBudget();
+    return entry;
+  }
+
+  async get(key: string): Promise<EnhancedImage | null> {
+    const db = await this.getDatabase();
+    const stored = await promisifyRequest<StoredImage | undefined>(
+      db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).get(key)
+    );
+    if (!stored) return null;
+
+    await this.touch(key);
+    return stored.image;
+  }
+
+  // Load every stored enhancement derived from this source image, most recently used first
+  async getBySource(sourceDigest: string, limit: number = Infinity): Promise<EnhancedImage[]> {
+    const db = await this.getDatabase();
+    const entries = await promisifyRequest<PersistentCacheEntry[]>(
+      db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('sourceDigest').getAll(sourceDigest)
+    );
+
+    entries.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+    const images: EnhancedImage[] = [];
+    for (const entry of entries.slice(0, limit)) {
+      const stored = await promisifyRequest<StoredImage | undefined>(
+        db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).get(entry.key)
+      );
+      if (stored) images.push(stored.image);
+    }
+    return images;
+  }
+
+  async touch(key: string): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRIES_STORE);
+    const entry = await promisifyRequest<PersistentCacheEntry | undefined>(store.get(key));
+    if (entry) {
+      store.put({ ...entry, lastAccessedAt: Date.now() });
+    }
+    await completeTransaction(transaction);
+  }
+
+  async list(): Promise<PersistentCacheEntry[]> {
+    const db = await this.getDatabase();
+    const entries = await promisifyRequest<PersistentCacheEntry[]>(
+      db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll()
+    );
+    return entries.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+  }
+
+  async getTotalBytes(): Promise<number> {
+    const entries = await this.list();
+    return entries.reduce((total, entry) => total + entry.byteSize, 0);
+  }
+
+  async remove(key: string): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, IMAGES_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).delete(key);
+    transaction.objectStore(IMAGES_STORE).delete(key);
+    await completeTransaction(transaction);
+  }
+
+  async purge(): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, IMAGES_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).clear();
+    transaction.objectStore(IMAGES_STORE).clear();
+    await completeTransaction(transaction);
+  }
+
+  // Evict least recently used entries (across all sessions) until under the byte budget
+  async enforceBudget(): Promise<number> {
+    const entries = await this.list();
+    let total = entries.reduce((sum, entry) => sum + entry.byteSize, 0);
+    let evicted = 0;
+
+    for (let i = entries.length - 1; i >= 0 && total > this.maxBytes; i--) {
+      await this.remove(entries[i].key);
+      total -= entries[i].byteSize;
+      evicted++;
+    }
+    return evicted;
+  }
+}
+
+// Export a singleton instance
+export const persistentImageCache = new PersistentImageCache();
@@ -0,0 +1,95 @@
+import type { PromptPreset } from '../types/prompt';
+import { readJson, writeStorage } from '../utils/storage';
+
+const CUSTOM_PROMPTS_STORAGE_KEY = 'banana-scope:prompts';
+const DEFAULT_PROMPT_STORAGE_KEY = 'banana-scope:prompt';
+
+const BUILT_IN_PRESETS: PromptPreset[] = [
+  {
+    id: 'photoreal',
+    label: 'Photoreal',
+    template: 'Enhance and reimagine this image with increased quality and detail. Focus on sharpening edges, improving texture detail, and adding realistic details that would be visible at higher magnification. Maintain the original style and content while making it appear as if taken with a higher resolution camera.',
+    builtIn: true
+  },
+  {
+    id: 'microscope',
+    label: 'Microscope',
+    template: 'Render this region as seen through a laboratory microscope at {zoomLevel}x magnification. Resolve fine surface structure, fibers, grains and cells that would plausibly exist in this material, with shallow depth of field and even illumination. Keep the colors and layout of the original.',
+    builtIn: true
+  },
+  {
+    id: 'astronomical',
+    label: 'Astronomical',
+    template: 'Enhance this region as a deep-space telescope exposure at {zoomLevel}x magnification. Sharpen point sources, resolve faint nebulosity, dust lanes and distant galaxies, and keep the noise and color of long-exposure astrophotography. Preserve the position of every existing feature.',
+    builtIn: true
+  },
+  {
+    id: 'painterly',
+    label: 'Painterly',
+    template: 'Re-render this detail as a finely painted artwork at higher resolution, with visible but delicate brushwork and rich texture. Keep the composition, palette and subject of the original exactly where they are.',
+    builtIn: true
+  },
+  {
+    id: 'fantasy',
+    label: 'Fantasy detail',
+    template: 'Zoom into this region and invent intricate, whimsical fantasy detail that was too small to see before: tiny structures, creatures and ornaments that fit the scene. Keep the large shapes, lighting and colors of the original so the zoom feels continuous. This is layer {depth} of the journey.',
+    builtIn: true
+  }
+];
+
+// Built-in presets plus user-defined ones, which are kept in localStorage
+class PromptLibrary {
+  private customPresets: PromptPreset[] = readJson<PromptPreset[]>(CUSTOM_PROMPTS_STORAGE_KEY, []);
+
+  getPresets(): PromptPreset[] {
+    return [...BUILT_IN_PRESETS, ...this.customPresets];
+  }
+
+  getPreset(id: string): PromptPreset | undefined {
+    return this.getPresets().find(preset => preset.id === id);
+  }
+
+  getDefaultPresetId(): string {
+    const stored = readJson<string | null>(DEFAULT_PROMPT_STORAGE_KEY, null);
+    return stored && this.getPreset(stored) ? stored : BUILT_IN_PRESETS[0].id;
+  }
+
+  setDefaultPresetId(id: string): void {
+    if (!this.getPreset(id)) {
+      throw new Error(`Unknown prompt preset: ${id}`);
+    }
+    writeStorage(DEFAULT_PROMPT_STORAGE_KEY, JSON.stringify(id));
+  }
+
+  // Create a custom preset, or update it when `id` names an existing custom one
+  saveCustomPreset(label: string, template: string, id?: string): PromptPreset {
+    if (id && BUILT_IN_PRESETS.some(preset => preset.id === id)) {
+      throw new Error('Built-in prompt presets cannot be edited');
+    }
+
+    const preset: PromptPreset = {
+      id: id ?? `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      label: label.trim() || 'Untitled prompt',
+      template,
+      builtIn: false
+    };
+    const index = this.customPresets.findIndex(existing => existing.id === preset.id);
+    this.customPresets = index === -1
+      ? [...this.customPresets, preset]
+      : this.customPresets.map(existing => (existing.id === preset.id ? preset : existing));
+    this.persist();
+    return preset;
+  }
+
+  removeCustomPreset(id: string): void {
+    this.customPresets = this.customPresets.filter(preset => preset.id !== id);
+    this.persist();
+  }
+
+  private persist(): void {
+    writeStorage(CUSTOM_PROMPTS_STORAGE_KEY, JSON.stringify(this.customPresets));
+  }
+}
+
+// Export a singleton instance
+export const promptLibrary = new PromptLibrary();
@@ -0,0 +1,158 @@
+import type { EnhancedImage } from '../types/enhancement';
+import type { ExplorationNode, ExplorationSession } from '../types/exploration';
+import { computeImageDigest } from '../utils/hash';
+
+const ARCHIVE_FORMAT = 'banana-scope-session';
+const ARCHIVE_VERSION = 1;
+export const SESSION_FILE_EXTENSION = '.bananascope.json';
+
+// Image payloads are stored once in `images`, keyed by content digest, and referenced from
+// the tree and cache by that digest
+type ArchivedNode = Omit<ExplorationNode, 'image'>;
+type ArchivedImage = Omit<EnhancedImage, 'data'>;
+
+interface SessionArchiveFile {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  aspectRatio: string;
+  providerId: string;
+  promptPresetId?: string;
+  view: ExplorationSession['view'];
+  tree: {
+    rootId: string;
+    currentId: string;
+    lastVisitedChild: Record<string, string>;
+    nodes: ArchivedNode[];
+  };
+  cache: ArchivedImage[];
+  images: Record<string, string>;
+}
+
+export class SessionArchiveError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SessionArchiveError';
+  }
+}
+
+const readFileAsText = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result?.toString() ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+};
+
+class SessionArchiveService {
+  createArchive(session: ExplorationSession): Blob {
+    const { tree } = session;
+    if (!tree.rootId || !tree.currentId) {
+      throw new SessionArchiveError('There is no exploration to export');
+    }
+
+    const images: Record<string, string> = {};
+    const nodes = Object.values(tree.nodes).map(({ image, ...node }): ArchivedNode => {
+      images[node.digest] = image;
+      return node;
+    });
+    const cache = session.cache.map(({ data, ...image }): ArchivedImage => {
+      images[image.digest] = data;
+      return image;
+    });
+
+    const archive: SessionArchiveFile = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: session.exportedAt,
+      aspectRatio: session.aspectRatio,
+      providerId: session.providerId,
+      promptPresetId: session.promptPresetId,
+      view: session.view,
+      tree: {
+        rootId: tree.rootId,
+        currentId: tree.currentId,
+        lastVisitedChild: tree.lastVisitedChild,
+        nodes
+      },
+      cache,
+      images
+    };
+    return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  }
+
+  downloadArchive(session: ExplorationSession): void {
+    const url = URL.createObjectURL(this.createArchive(session));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `banana-scope-${new Date(session.exportedAt).toISOString().replace(/[:.]/g, '-')}${SESSION_FILE_EXTENSION}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  async readArchive(file: Blob): Promise<ExplorationSession> {
+    let archive: SessionArchiveFile;
+    try {
+      archive = JSON.parse(await readFileAsText(file));
+    } catch (error) {
+      throw new SessionArchiveError('The file is not a readable session archive', { cause: error });
+    }
+
+    if (archive?.format !== ARCHIVE_FORMAT) {
+      throw new SessionArchiveError('The file is not a Banana Scope session archive');
+    }
+    if (archive.version > ARCHIVE_VERSION) {
+      throw new SessionArchiveError(`Session archive version ${archive.version} is newer than this app supports`);
+    }
+
+    // Every referenced image must be present and unaltered, or the lineage cannot be trusted
+    const verified = new Set<string>();
+    const resolveImage = async (digest: string): Promise<string> => {
+      const data = archive.images[digest];
+      if (!data) {
+        throw new SessionArchiveError(`Session archive is missing image ${digest.slice(0, 8)}`);
+      }
+      if (!verified.has(digest)) {
+        if (await computeImageDigest(data) !== digest) {
+          throw new SessionArchiveError(`Image ${digest.slice(0, 8)} in the session archive is corrupted`);
+        }
+        verified.add(digest);
+      }
+      return data;
+    };
+
+    const nodes: Record<string, ExplorationNode> = {};
+    for (const node of archive.tree.nodes) {
+      nodes[node.id] = { ...node, image: await resolveImage(node.digest) };
+    }
+    if (!nodes[archive.tree.rootId] || !nodes[archive.tree.currentId]) {
+      throw new SessionArchiveError('Session archive has an incomplete exploration tree');
+    }
+
+    const cache: EnhancedImage[] = [];
+    for (const image of archive.cache) {
+      cache.push({ ...image, data: await resolveImage(image.digest) });
+    }
+
+    return {
+      tree: {
+        nodes,
+        rootId: archive.tree.rootId,
+        currentId: archive.tree.currentId,
+        lastVisitedChild: archive.tree.lastVisitedChild
+      },
+      cache,
+      aspectRatio: archive.aspectRatio,
+      providerId: archive.providerId,
+      promptPresetId: archive.promptPresetId,
+      view: archive.view,
+      exportedAt: archive.exportedAt
+    };
+  }
+}
+
+// Export a singleton instance
+export const sessionArchiveService = new SessionArchiveService();
@@ -0,0 +1,67 @@
+import type { ShortcutAction, ShortcutBindings, ShortcutDefinition } from '../types/shortcuts';
+import { readJson, writeStorage } from '../utils/storage';
+
+const SHORTCUTS_STORAGE_KEY = 'banana-scope:shortcuts';
+
+const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'zoomIn', label: 'Zoom in', defaultKeys: ['+', '='], repeatable: true },
+  { action: 'zoomOut', label: 'Zoom out', defaultKeys: ['-'], repeatable: true },
+  { action: 'resetZoom', label: 'Reset zoom', defaultKeys: ['0'], repeatable: false },
+  { action: 'panLeft', label: 'Pan left', defaultKeys: ['ArrowLeft'], repeatable: true },
+  { action: 'panRight', label: 'Pan right', defaultKeys: ['ArrowRight'], repeatable: true },
+  { action: 'panUp', label: 'Pan up', defaultKeys: ['ArrowUp'], repeatable: true },
+  { action: 'panDown', label: 'Pan down', defaultKeys: ['ArrowDown'], repeatable: true },
+  { action: 'previousLayer', label: 'Previous focus layer', defaultKeys: ['['], repeatable: false },
+  { action: 'nextLayer', label: 'Next focus layer', defaultKeys: [']'], repeatable: false },
+  { action: 'enhanceNow', label: 'Enhance the current view now', defaultKeys: ['Enter'], repeatable: false },
+  { action: 'cancelEnhancement', label: 'Cancel enhancement', defaultKeys: ['Escape'], repeatable: false },
+  { action: 'toggleComparison', label: 'Toggle before/after comparison', defaultKeys: ['c'], repeatable: false },
+  { action: 'exportDive', label: 'Open zoom-dive export', defaultKeys: ['e'], repeatable: false },
+  { action: 'showShortcuts', label: 'Show keyboard shortcuts', defaultKeys: ['?'], repeatable: false }
+];
+
+// Default key bindings plus the user's remappings, which are kept in localStorage
+class ShortcutRegistry {
+  private overrides: Partial<ShortcutBindings> = readJson<Partial<ShortcutBindings>>(SHORTCUTS_STORAGE_KEY, {});
+
+  getDefinitions(): ShortcutDefinition[] {
+    return SHORTCUT_DEFINITIONS;
+  }
+
+  getDefinition(action: ShortcutAction): ShortcutDefinition | undefined {
+    return SHORTCUT_DEFINITIONS.find(definition => definition.action === action);
+  }
+
+  getBindings(): ShortcutBindings {
+    return Object.fromEntries(
+      SHORTCUT_DEFINITIONS.map(definition => [definition.action, this.overrides[definition.action] ?? definition.defaultKeys])
+    ) as ShortcutBindings;
+  }
+
+  // Bind `combo` to `action` alone; any other action using it loses it
+  setBinding(action: ShortcutAction, combo: string): ShortcutBindings {
+    const bindings = this.getBindings();
+    for (const definition of SHORTCUT_DEFINITIONS) {
+      if (definition.action !== action && bindings[definition.action].includes(combo)) {
+        this.overrides[definition.action] = bindings[definition.action].filter(existing => existing !== combo);
+      }
+    }
+    this.overrides[action] = [combo];
+    this.persist();
+    return this.getBindings();
+  }
+
+  resetBindings(): ShortcutBindings {
+    this.overrides = {};
+    this.persist();
+    return this.getBindings();
+  }
+
+  private persist(): void {
+    const isEmpty = Object.keys(this.overrides).length === 0;
+    writeStorage(SHORTCUTS_STORAGE_KEY, isEmpty ? null : JSON.stringify(this.overrides));
+  }
+}
+
+// Export a singleton instance
+export const shortcutRegistry = new ShortcutRegistry();
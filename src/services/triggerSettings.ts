@@ -0,0 +1,61 @@
+import type { EnhancementTriggerMode, EnhancementTriggerSettings } from '../types/enhancement';
+import { readJson, writeStorage } from '../utils/storage';
+
+const TRIGGER_STORAGE_KEY = 'banana-scope:trigger';
+
+export interface TriggerModeOption {
+  id: EnhancementTriggerMode;
+  label: string;
+  description: string;
+}
+
+export const TRIGGER_MODES: TriggerModeOption[] = [
+  { id: 'auto', label: 'Automatic', description: 'Enhance shortly after zooming past the threshold' },
+  { id: 'manual', label: 'Manual', description: 'Only enhance when asked to' },
+  { id: 'idle', label: 'On idle', description: 'Enhance once the view has stayed still past the threshold' },
+  { id: 'prefetch', label: 'Always prefetch', description: 'Enhance past the threshold after zooming or panning, then the views likely to come next in the background' }
+];
+
+export const DEFAULT_TRIGGER_SETTINGS: EnhancementTriggerSettings = {
+  mode: 'auto',
+  threshold: 3,
+  idleDelayMs: 1500,
+  confirmBeforeSpend: false,
+  prefetchBudget: 8
+};
+
+export const TRIGGER_THRESHOLDS = [1.5, 2, 3, 4, 6, 8];
+export const IDLE_DELAYS_MS = [500, 1000, 1500, 3000, 5000];
+export const PREFETCH_BUDGETS = [4, 8, 16, 32];
+
+// Fill gaps and drop values the controls no longer offer, e.g. from an older version
+const sanitize = (settings: Partial<EnhancementTriggerSettings>): EnhancementTriggerSettings => {
+  const merged = { ...DEFAULT_TRIGGER_SETTINGS, ...settings };
+  return {
+    mode: TRIGGER_MODES.some(option => option.id === merged.mode) ? merged.mode : DEFAULT_TRIGGER_SETTINGS.mode,
+    threshold: TRIGGER_THRESHOLDS.includes(merged.threshold) ? merged.threshold : DEFAULT_TRIGGER_SETTINGS.threshold,
+    idleDelayMs: IDLE_DELAYS_MS.includes(merged.idleDelayMs) ? merged.idleDelayMs : DEFAULT_TRIGGER_SETTINGS.idleDelayMs,
+    confirmBeforeSpend: Boolean(merged.confirmBeforeSpend),
+    prefetchBudget: PREFETCH_BUDGETS.includes(merged.prefetchBudget) ? merged.prefetchBudget : DEFAULT_TRIGGER_SETTINGS.prefetchBudget
+  };
+};
+
+// When enhancements start on their own, kept in localStorage
+class TriggerSettingsStore {
+  private settings: EnhancementTriggerSettings = sanitize(
+    readJson<Partial<EnhancementTriggerSettings>>(TRIGGER_STORAGE_KEY, {})
+  );
+
+  getSettings(): EnhancementTriggerSettings {
+    return this.settings;
+  }
+
+  update(changes: Partial<EnhancementTriggerSettings>): EnhancementTriggerSettings {
+    this.settings = sanitize({ ...this.settings, ...changes });
+    writeStorage(TRIGGER_STORAGE_KEY, JSON.stringify(this.settings));
+    return this.settings;
+  }
+}
+
+// Export a singleton instance
+export const triggerSettingsStore = new TriggerSettingsStore();
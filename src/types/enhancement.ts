@@ -10,18 +10,91 @@ export interface EnhancedImage {
   data: string; // base64 image data
   zoomLevel: number;
   viewport: ViewportBounds;
-  originalImageSrc: string;
+  sourceDigest: string; // SHA-256 of the image this was cropped from
+  sourceWidth: number;
+  sourceHeight: number;
+  digest: string; // SHA-256 of `data`
+  prompt?: string; // rendered prompt sent to the model; absent on entries stored before prompts were recorded
+  rejected?: boolean; // a candidate the user passed over; kept for later but never reused automatically
+  metrics?: FidelityMetrics; // how closely this matches the crop it was made from; absent on older entries
   createdAt: number;
 }
 
+// Enhancement vs. source crop, measured after downscaling the enhancement to the crop's size
+export interface FidelityMetrics {
+  psnr: number; // dB over RGB, capped at 100 for identical images
+  ssim: number; // mean structural similarity of luma, up to 1
+  histogramDrift: number; // 0 (same color distribution) to 1 (disjoint)
+  edgeSimilarity: number; // 0-1 correlation of edge strength
+}
+
+// An enhancement failing any of these is considered to have drifted from its source
+export interface FidelityThresholds {
+  minPsnr: number;
+  minSsim: number;
+  maxHistogramDrift: number;
+  minEdgeSimilarity: number;
+}
+
 export interface ImageCache {
   [key: string]: EnhancedImage;
 }
 
+// A rectangle expressed as fractions (0-1) of some reference image
+export interface NormalizedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SimilarCacheMatch {
+  image: EnhancedImage;
+  iou: number;
+  coverage: number; // fraction of the requested viewport the cached one covers
+  region: NormalizedRegion; // the requested viewport, relative to the cached enhancement
+}
+
+export interface PersistentCacheEntry {
+  key: string; // same as EnhancedImage.id: sourceDigest + viewport + zoom
+  sourceDigest: string;
+  zoomLevel: number;
+  viewport: ViewportBounds;
+  byteSize: number;
+  rejected?: boolean;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export type EnhancementErrorKind =
+  | 'quota'
+  | 'safety'
+  | 'no-image'
+  | 'transient'
+  | 'invalid-key'
+  | 'unknown';
+
+export interface EnhancementErrorInfo {
+  kind: EnhancementErrorKind;
+  message: string;
+  retryable: boolean;
+  attempts: number;
+  status?: number;
+}
+
+export interface TileProgress {
+  completed: number;
+  total: number;
+}
+
+export type EnhancementProgressCallback = (progress: number, tiles?: TileProgress) => void;
+
 export interface EnhancementState {
   isProcessing: boolean;
-  error: string | null;
+  error: EnhancementErrorInfo | null;
   progress: number;
+  tiles?: TileProgress; // set while a tiled enhancement is running
+  fidelityRetries?: number; // set while re-requesting a result that failed the fidelity gate
   lastProcessedZoom: number;
 }
 
@@ -32,6 +105,48 @@ export interface CropArea {
   height: number;
   sourceWidth: number;
   sourceHeight: number;
+  aspectRatio?: number; // width / height the crop is framed to; defaults to the crop's own ratio
+}
+
+export interface CroppedImage {
+  data: string; // data URL framed to `aspectRatio`
+  aspectRatio: number;
+  contentRegion: NormalizedRegion; // where the requested crop sits inside the padded frame
+}
+
+// What starts an enhancement besides an explicit request from the user
+export type EnhancementTriggerMode = 'auto' | 'manual' | 'idle' | 'prefetch';
+
+export interface EnhancementTriggerSettings {
+  mode: EnhancementTriggerMode;
+  threshold: number; // magnification above which the current view is enhanced without asking
+  idleDelayMs: number; // how long the view must stay still in 'idle' mode
+  confirmBeforeSpend: boolean; // ask before sending requests to a billable provider
+  prefetchBudget: number; // speculative requests allowed per image in 'prefetch' mode
+}
+
+export type EnhancementStatus = 'idle' | 'processing' | 'completed' | 'error';
+
+// The wider scene a crop was taken from, so the model keeps the enhancement consistent with it
+export interface EnhancementContext {
+  overview: string; // downscaled source image (data URL) with the crop outlined in red
+  lineage: string; // plain-text summary of the layers zoomed through to get here
 }
 
-export type EnhancementStatus = 'idle' | 'processing' | 'completed' | 'error';
\ No newline at end of file
+export interface EnhancementRequest {
+  imageData: string; // cropped image as a data URL
+  cropArea: CropArea;
+  prompt: string; // fully rendered instructions; providers without a language model may ignore it
+  context?: EnhancementContext; // providers without a language model may ignore it
+  signal: AbortSignal; // providers must abort in-flight work when this fires
+  onProgress?: (progress: number) => void;
+}
+
+export interface EnhancementProvider {
+  id: string;
+  label: string;
+  model: string;
+  billable: boolean; // each request costs money or API quota
+  isAvailable: () => boolean;
+  enhance: (request: EnhancementRequest) => Promise<string>;
+}
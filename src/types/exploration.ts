@@ -0,0 +1,38 @@
+import type { CropArea, EnhancedImage, FidelityMetrics } from './enhancement';
+
+// One image in an exploration: the upload (root) or an enhancement derived from its parent
+export interface ExplorationNode {
+  id: string;
+  parentId: string | null; // null only for the original upload
+  image: string;
+  digest: string;
+  cropArea: CropArea | null; // region of the parent this was enhanced from; null for the root or a whole-image layer
+  zoomLevel: number; // zoom on the parent when the enhancement was triggered
+  model: string | null; // model that produced the image; null for the upload and local composites
+  prompt: string | null; // rendered prompt that produced the image; null where no prompt was used
+  metrics?: FidelityMetrics; // fidelity to the parent crop; absent for local composites and older sessions
+  depth: number; // 0 for the root
+  createdAt: number;
+}
+
+export interface ExplorationTree {
+  nodes: Record<string, ExplorationNode>;
+  rootId: string | null;
+  currentId: string | null;
+  // Child last shown under each node, so "Next" retraces the branch "Previous" came up from
+  lastVisitedChild: Record<string, string>;
+}
+
+// Everything needed to resume an exploration elsewhere
+export interface ExplorationSession {
+  tree: ExplorationTree;
+  cache: EnhancedImage[];
+  aspectRatio: string; // label of the selected viewfinder ratio, e.g. '4:3'
+  providerId: string;
+  promptPresetId?: string; // session default prompt; absent in archives saved before presets existed
+  view: {
+    zoomLevel: number;
+    panPosition: { x: number; y: number };
+  };
+  exportedAt: number;
+}
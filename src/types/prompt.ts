@@ -0,0 +1,13 @@
+export interface PromptPreset {
+  id: string;
+  label: string;
+  template: string; // may reference {zoomLevel}, {depth} and {parentPrompt}
+  builtIn: boolean;
+}
+
+// Values substituted into a prompt template when an enhancement is requested
+export interface PromptVariables {
+  zoomLevel: number;
+  depth: number; // depth the new layer will have in the exploration tree
+  parentPrompt: string; // prompt that produced the image being cropped; empty for the upload
+}
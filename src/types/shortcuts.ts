@@ -0,0 +1,24 @@
+export type ShortcutAction =
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'resetZoom'
+  | 'panLeft'
+  | 'panRight'
+  | 'panUp'
+  | 'panDown'
+  | 'previousLayer'
+  | 'nextLayer'
+  | 'enhanceNow'
+  | 'cancelEnhancement'
+  | 'toggleComparison'
+  | 'exportDive'
+  | 'showShortcuts';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  defaultKeys: string[]; // key combos as produced by keyComboFromEvent, e.g. 'Shift+ArrowUp'
+  repeatable: boolean; // whether holding the key keeps firing it
+}
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
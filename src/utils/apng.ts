@@ -0,0 +1,127 @@
+// Minimal APNG assembly from PNG frames the browser has already encoded (canvas.toBlob),
+// so no image compression happens here: the IDAT streams are repackaged as animation frames.
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readChunks = (png: Uint8Array): PngChunk[] => {
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (png[i] !== PNG_SIGNATURE[i]) {
+      throw new Error('Frame is not a PNG image');
+    }
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const writeChunk = (type: string, data: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const frameControl = (
+  sequence: number,
+  width: number,
+  height: number,
+  delayMs: number
+): Uint8Array => {
+  const data = new Uint8Array(26);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, sequence);
+  view.setUint32(4, width);
+  view.setUint32(8, height);
+  view.setUint32(12, 0); // x offset
+  view.setUint32(16, 0); // y offset
+  view.setUint16(20, Math.round(delayMs)); // delay numerator
+  view.setUint16(22, 1000); // delay denominator: milliseconds
+  data[24] = 0; // dispose: none
+  data[25] = 0; // blend: source
+  return data;
+};
+
+// Full-frame APNG that loops forever, each frame shown for `delayMs`
+export const encodeApng = (frames: Uint8Array[], delayMs: number): Blob => {
+  if (frames.length === 0) {
+    throw new Error('An animation needs at least one frame');
+  }
+
+  const parts: Uint8Array<ArrayBuffer>[] = [new Uint8Array(PNG_SIGNATURE)];
+  const header = readChunks(frames[0]).find(chunk => chunk.type === 'IHDR');
+  if (!header) {
+    throw new Error('Frame is missing its PNG header');
+  }
+  const headerView = new DataView(header.data.buffer, header.data.byteOffset, header.data.byteLength);
+  const width = headerView.getUint32(0);
+  const height = headerView.getUint32(4);
+
+  const animationControl = new Uint8Array(8);
+  new DataView(animationControl.buffer).setUint32(0, frames.length); // num_plays stays 0: loop
+  parts.push(writeChunk('IHDR', header.data), writeChunk('acTL', animationControl));
+
+  let sequence = 0;
+  frames.forEach((frame, index) => {
+    const chunks = readChunks(frame);
+    // fdAT data is only valid under the first frame's IHDR (size, bit depth, color type)
+    const frameHeader = chunks.find(chunk => chunk.type === 'IHDR');
+    if (!frameHeader || frameHeader.data.some((byte, i) => byte !== header.data[i])) {
+      throw new Error(`Frame ${index + 1} was encoded differently from the first frame`);
+    }
+
+    parts.push(writeChunk('fcTL', frameControl(sequence++, width, height, delayMs)));
+    for (const chunk of chunks) {
+      if (chunk.type !== 'IDAT') continue;
+      if (index === 0) {
+        // The first frame doubles as the static fallback image
+        parts.push(writeChunk('IDAT', chunk.data));
+      } else {
+        const data = new Uint8Array(4 + chunk.data.length);
+        new DataView(data.buffer).setUint32(0, sequence++);
+        data.set(chunk.data, 4);
+        parts.push(writeChunk('fdAT', data));
+      }
+    }
+  });
+
+  parts.push(writeChunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/apng' });
+};
@@ -0,0 +1,84 @@
+// Resolve after `ms`, or reject with the signal's reason as soon as it aborts
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Full-jitter exponential backoff: a random delay in [0, min(maxMs, baseMs * 2^attempt)]
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number): number => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+export class RateLimiter {
+  private requestsPerMinute: number;
+  private timestamps: number[] = [];
+
+  constructor(requestsPerMinute: number) {
+    this.requestsPerMinute = requestsPerMinute;
+  }
+
+  setRequestsPerMinute(requestsPerMinute: number): void {
+    this.requestsPerMinute = requestsPerMinute;
+  }
+
+  // Wait until a slot is free in the trailing one-minute window, then claim it
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (this.requestsPerMinute <= 0) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter(timestamp => now - timestamp < 60_000);
+
+      if (this.timestamps.length < this.requestsPerMinute) {
+        this.timestamps.push(now);
+        return;
+      }
+
+      await delay(this.timestamps[0] + 60_000 - now, signal);
+    }
+  }
+}
+
+// Like Promise.all over `items.map(fn)`, but with at most `limit` calls in flight.
+// After the first failure no new items are started and that error is rethrown.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
@@ -0,0 +1,179 @@
+import type { FidelityMetrics, FidelityThresholds } from '../types/enhancement';
+import { loadComparablePixels } from './imageCompare';
+
+// Source crops are usually small; this only bounds the work for large region selections
+const MAX_COMPARE_DIMENSION = 512;
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const HISTOGRAM_BINS = 16;
+const MAX_PSNR = 100;
+
+export interface FidelityGate {
+  id: string;
+  label: string;
+  thresholds: FidelityThresholds | null; // null never rejects
+}
+
+export const FIDELITY_GATES: FidelityGate[] = [
+  { id: 'off', label: 'Off', thresholds: null },
+  {
+    id: 'lenient',
+    label: 'Lenient',
+    thresholds: { minPsnr: 18, minSsim: 0.5, maxHistogramDrift: 0.3, minEdgeSimilarity: 0.4 }
+  },
+  {
+    id: 'strict',
+    label: 'Strict',
+    thresholds: { minPsnr: 24, minSsim: 0.7, maxHistogramDrift: 0.15, minEdgeSimilarity: 0.6 }
+  }
+];
+
+const toLuma = (rgba: Uint8ClampedArray): Float32Array => {
+  const luma = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return luma;
+};
+
+const computePsnr = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  let squaredError = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      const difference = a[i + channel] - b[i + channel];
+      squaredError += difference * difference;
+    }
+  }
+  const mse = squaredError / ((a.length / 4) * 3);
+  return mse === 0 ? MAX_PSNR : Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse));
+};
+
+// Mean SSIM over overlapping square windows; images smaller than a window use one window
+const computeSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const windowWidth = Math.min(SSIM_WINDOW, width);
+  const windowHeight = Math.min(SSIM_WINDOW, height);
+  const count = windowWidth * windowHeight;
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + windowHeight <= height; top += SSIM_STRIDE) {
+    for (let left = 0; left + windowWidth <= width; left += SSIM_STRIDE) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = top; y < top + windowHeight; y++) {
+        for (let x = left; x < left + windowWidth; x++) {
+          const valueA = a[y * width + x];
+          const valueB = b[y * width + x];
+          sumA += valueA;
+          sumB += valueB;
+          sumAA += valueA * valueA;
+          sumBB += valueB * valueB;
+          sumAB += valueA * valueB;
+        }
+      }
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varianceA = sumAA / count - meanA * meanA;
+      const varianceB = sumBB / count - meanB * meanB;
+      const covariance = sumAB / count - meanA * meanB;
+      total += ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varianceA + varianceB + c2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+};
+
+// Total variation distance between per-channel color histograms, averaged over RGB
+const computeHistogramDrift = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  const pixels = a.length / 4;
+  let drift = 0;
+  for (let channel = 0; channel < 3; channel++) {
+    const histogramA = new Array<number>(HISTOGRAM_BINS).fill(0);
+    const histogramB = new Array<number>(HISTOGRAM_BINS).fill(0);
+    for (let i = channel; i < a.length; i += 4) {
+      histogramA[Math.floor((a[i] * HISTOGRAM_BINS) / 256)]++;
+      histogramB[Math.floor((b[i] * HISTOGRAM_BINS) / 256)]++;
+    }
+    let distance = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      distance += Math.abs(histogramA[bin] - histogramB[bin]);
+    }
+    drift += distance / (2 * pixels);
+  }
+  return drift / 3;
+};
+
+// Sobel gradient magnitude; the one-pixel border is left at zero
+const computeEdges = (luma: Float32Array, width: number, height: number): Float32Array => {
+  const edges = new Float32Array(luma.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => luma[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      edges[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+  return edges;
+};
+
+// Pearson correlation of the two edge maps, clamped to 0-1; two featureless images match
+const computeEdgeSimilarity = (a: Float32Array, b: Float32Array): number => {
+  let sumA = 0, sumB = 0;
+  for (let i = 0; i < a.length; i++) {
+    sumA += a[i];
+    sumB += b[i];
+  }
+  const meanA = sumA / a.length;
+  const meanB = sumB / b.length;
+  let covariance = 0, varianceA = 0, varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  if (varianceA === 0 || varianceB === 0) {
+    return varianceA === varianceB ? 1 : 0;
+  }
+  return Math.max(0, covariance / Math.sqrt(varianceA * varianceB));
+};
+
+// Downscale the enhancement to the source crop and measure how far it strayed
+export const computeFidelityMetrics = async (sourceCropSrc: string, enhancedSrc: string): Promise<FidelityMetrics> => {
+  const { width, height, before, after } = await loadComparablePixels(
+    sourceCropSrc,
+    enhancedSrc,
+    'before',
+    MAX_COMPARE_DIMENSION
+  );
+  const lumaBefore = toLuma(before);
+  const lumaAfter = toLuma(after);
+
+  return {
+    psnr: computePsnr(before, after),
+    ssim: computeSsim(lumaBefore, lumaAfter, width, height),
+    histogramDrift: computeHistogramDrift(before, after),
+    edgeSimilarity: computeEdgeSimilarity(
+      computeEdges(lumaBefore, width, height),
+      computeEdges(lumaAfter, width, height)
+    )
+  };
+};
+
+// Names of the metrics that fall outside `thresholds`; empty means the enhancement passes
+export const findFidelityFailures = (metrics: FidelityMetrics, thresholds: FidelityThresholds): string[] => {
+  const failures: string[] = [];
+  if (metrics.psnr < thresholds.minPsnr) failures.push('PSNR');
+  if (metrics.ssim < thresholds.minSsim) failures.push('SSIM');
+  if (metrics.histogramDrift > thresholds.maxHistogramDrift) failures.push('color drift');
+  if (metrics.edgeSimilarity < thresholds.minEdgeSimilarity) failures.push('edges');
+  return failures;
+};
+
+// One-line summary for tooltips
+export const formatFidelityMetrics = (metrics: FidelityMetrics): string => {
+  return `PSNR ${metrics.psnr.toFixed(1)} dB · SSIM ${metrics.ssim.toFixed(2)} · ` +
+    `color drift ${metrics.histogramDrift.toFixed(2)} · edges ${metrics.edgeSimilarity.toFixed(2)}`;
+};
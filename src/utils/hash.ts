@@ -0,0 +1,31 @@
+// Decode a data URL (or bare base64 string) into its raw bytes
+export const dataUrlToBytes = (dataUrl: string): Uint8Array<ArrayBuffer> => {
+  const base64 = dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// SHA-256 of raw bytes, as lowercase hex
+export const computeBytesDigest = async (bytes: BufferSource): Promise<string> => {
+  const hash = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// FNV-1a of a string, as 8 hex digits. For short in-memory identifiers only, not integrity
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// SHA-256 of the decoded image bytes, as lowercase hex
+export const computeImageDigest = (dataUrl: string): Promise<string> => {
+  return computeBytesDigest(dataUrlToBytes(dataUrl));
+};
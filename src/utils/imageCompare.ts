@@ -0,0 +1,88 @@
+import { loadImage } from './viewport';
+
+export interface ComparablePixels {
+  width: number;
+  height: number;
+  before: Uint8ClampedArray; // RGBA
+  after: Uint8ClampedArray; // RGBA
+}
+
+const drawPixels = (image: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Both images resampled to the size of `reference`, capped at `maxDimension`. With 'after' the
+// source crop is upscaled the way the viewfinder shows it; with 'before' the enhancement is
+// downscaled back to the resolution it was made from
+export const loadComparablePixels = async (
+  beforeSrc: string,
+  afterSrc: string,
+  reference: 'before' | 'after' = 'after',
+  maxDimension: number = 1024
+): Promise<ComparablePixels> => {
+  const [before, after] = await Promise.all([loadImage(beforeSrc), loadImage(afterSrc)]);
+  const sized = reference === 'before' ? before : after;
+  const scale = Math.min(1, maxDimension / Math.max(sized.naturalWidth, sized.naturalHeight));
+  const width = Math.max(1, Math.round(sized.naturalWidth * scale));
+  const height = Math.max(1, Math.round(sized.naturalHeight * scale));
+  return {
+    width,
+    height,
+    before: drawPixels(before, width, height),
+    after: drawPixels(after, width, height)
+  };
+};
+
+// Black -> red -> yellow -> white as `value` goes 0 -> 1
+const heatColor = (value: number): [number, number, number] => {
+  const v = Math.min(1, Math.max(0, value));
+  return [
+    Math.min(255, v * 3 * 255),
+    Math.min(255, Math.max(0, v * 3 - 1) * 255),
+    Math.min(255, Math.max(0, v * 3 - 2) * 255)
+  ];
+};
+
+// Per-pixel color difference as a heatmap; `gain` stretches small differences into view
+export const computeDifferenceHeatmap = async (
+  beforeSrc: string,
+  afterSrc: string,
+  gain: number = 3
+): Promise<string> => {
+  const { width, height, before, after } = await loadComparablePixels(beforeSrc, afterSrc);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const heatmap = ctx.createImageData(width, height);
+  for (let i = 0; i < before.length; i += 4) {
+    const difference = (
+      Math.abs(before[i] - after[i]) +
+      Math.abs(before[i + 1] - after[i + 1]) +
+      Math.abs(before[i + 2] - after[i + 2])
+    ) / (3 * 255);
+    const [r, g, b] = heatColor(difference * gain);
+    heatmap.data[i] = r;
+    heatmap.data[i + 1] = g;
+    heatmap.data[i + 2] = b;
+    heatmap.data[i + 3] = 255;
+  }
+  ctx.putImageData(heatmap, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,46 @@
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta']);
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  ' ': 'Space'
+};
+
+// Canonical name for a key press, e.g. 'Ctrl+s', 'Shift+ArrowUp' or '?'; null for a bare
+// modifier. Shift is only named for keys it does not already change (letters and symbols
+// carry it in the character itself)
+export const keyComboFromEvent = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  const isCharacter = event.key.length === 1;
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.metaKey) parts.push('Meta');
+  if (event.shiftKey && !isCharacter) parts.push('Shift');
+  parts.push(isCharacter ? event.key.toLowerCase() : event.key);
+  return parts.join('+');
+};
+
+// The plus key itself ends a combo with '+', e.g. '+' or 'Ctrl++'
+const splitCombo = (combo: string): string[] => {
+  if (combo.endsWith('+')) {
+    return [...combo.slice(0, -1).split('+').filter(Boolean), '+'];
+  }
+  return combo.split('+');
+};
+
+export const formatKeyCombo = (combo: string): string => {
+  return splitCombo(combo)
+    .map(part => KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part))
+    .join(' + ');
+};
+
+// Typing into a field must never trigger shortcuts
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
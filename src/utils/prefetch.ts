@@ -0,0 +1,49 @@
+import { panBy, zoomAtPoint, type Point, type ViewLayout, type ViewState, type ZoomLimits } from './viewTransform';
+
+export interface PredictionOptions {
+  zoomStep: number; // factor of one zoom-in step
+  panSteps: number; // how many viewports ahead to look along the pan direction
+}
+
+export const DEFAULT_PREDICTION_OPTIONS: PredictionOptions = {
+  zoomStep: 1.5,
+  panSteps: 2
+};
+
+const isSameView = (a: ViewState, b: ViewState): boolean => {
+  return Math.abs(a.zoomLevel - b.zoomLevel) < 1e-6 &&
+    Math.abs(a.panPosition.x - b.panPosition.x) < 0.5 &&
+    Math.abs(a.panPosition.y - b.panPosition.y) < 0.5;
+};
+
+// Views the user is likely to move to next, most likely first: the current center one zoom step in,
+// then whole viewports further along `panDirection` (a pan delta in screen pixels, or null if not panning).
+// Views that clamping makes identical to the current one or to an earlier prediction are left out.
+export const predictNextViews = (
+  layout: ViewLayout,
+  view: ViewState,
+  panDirection: Point | null,
+  limits: ZoomLimits,
+  options: PredictionOptions = DEFAULT_PREDICTION_OPTIONS
+): ViewState[] => {
+  const center = { x: layout.viewportWidth / 2, y: layout.viewportHeight / 2 };
+  const candidates = [zoomAtPoint(layout, view, view.zoomLevel * options.zoomStep, center, limits)];
+
+  const dominant = panDirection ? Math.max(Math.abs(panDirection.x), Math.abs(panDirection.y)) : 0;
+  if (panDirection && dominant > 0) {
+    // Scale so the dominant axis advances exactly one viewport per step
+    const stepX = (panDirection.x / dominant) * layout.viewportWidth;
+    const stepY = (panDirection.y / dominant) * layout.viewportHeight;
+    for (let step = 1; step <= options.panSteps; step++) {
+      candidates.push(panBy(layout, view, stepX * step, stepY * step));
+    }
+  }
+
+  const predictions: ViewState[] = [];
+  for (const candidate of candidates) {
+    if (!isSameView(candidate, view) && !predictions.some(prediction => isSameView(prediction, candidate))) {
+      predictions.push(candidate);
+    }
+  }
+  return predictions;
+};
@@ -0,0 +1,38 @@
+import type { ExplorationNode } from '../types/exploration';
+import type { PromptVariables } from '../types/prompt';
+
+const LINEAGE_PROMPT_EXCERPT = 80;
+
+export const PROMPT_VARIABLES: { name: keyof PromptVariables; description: string }[] = [
+  { name: 'zoomLevel', description: 'magnification being enhanced, e.g. 4.5' },
+  { name: 'depth', description: 'how many enhancements deep the new layer is' },
+  { name: 'parentPrompt', description: 'the prompt that produced the layer being cropped' }
+];
+
+// Replace {name} placeholders; unknown names are left as written so typos stay visible
+export const renderPromptTemplate = (template: string, variables: PromptVariables): string => {
+  const values: Record<keyof PromptVariables, string> = {
+    zoomLevel: (Math.round(variables.zoomLevel * 10) / 10).toString(),
+    depth: variables.depth.toString(),
+    parentPrompt: variables.parentPrompt
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) => (Object.hasOwn(values, name) ? values[name as keyof PromptVariables] : match))
+    .trim();
+};
+
+// One sentence per layer zoomed through (root first), for models that are shown the wider scene
+export const describeLineage = (path: ExplorationNode[]): string => {
+  if (path.length <= 1) return '';
+
+  const steps = path.slice(1).map(node => {
+    const region = node.cropArea
+      ? `a region covering ${Math.round((node.cropArea.width / node.cropArea.sourceWidth) * 100)}% of its width at ${Math.round(node.zoomLevel * 10) / 10}x zoom`
+      : 'the whole image';
+    const prompt = node.prompt
+      ? ` ("${node.prompt.length > LINEAGE_PROMPT_EXCERPT ? `${node.prompt.slice(0, LINEAGE_PROMPT_EXCERPT)}…` : node.prompt}")`
+      : '';
+    return `Layer ${node.depth} enhanced ${region} of layer ${node.depth - 1}${prompt}.`;
+  });
+  return `The user has zoomed in ${path.length - 1} ${path.length === 2 ? 'time' : 'times'} from the original image (layer 0). ${steps.join(' ')}`;
+};
@@ -0,0 +1,75 @@
+import type { CropArea, EnhancedImage, NormalizedRegion, SimilarCacheMatch, ViewportBounds } from '../types/enhancement';
+
+export interface SimilarityOptions {
+  minCoverage: number; // cached viewport must cover at least this fraction of the request
+  maxZoomRatio: number; // max(a/b, b/a) between cached and requested zoom levels
+}
+
+export const DEFAULT_SIMILARITY_OPTIONS: SimilarityOptions = {
+  minCoverage: 0.9,
+  maxZoomRatio: 1.5
+};
+
+export const normalizeViewport = (
+  viewport: ViewportBounds,
+  sourceWidth: number,
+  sourceHeight: number
+): NormalizedRegion => ({
+  x: viewport.x / sourceWidth,
+  y: viewport.y / sourceHeight,
+  width: viewport.width / sourceWidth,
+  height: viewport.height / sourceHeight
+});
+
+const intersectionArea = (a: NormalizedRegion, b: NormalizedRegion): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+};
+
+export const intersectionOverUnion = (a: NormalizedRegion, b: NormalizedRegion): number => {
+  const intersection = intersectionArea(a, b);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Express `inner` relative to `outer`, clipped to outer's bounds
+export const relativeRegion = (inner: NormalizedRegion, outer: NormalizedRegion): NormalizedRegion => {
+  const left = Math.max(0, (inner.x - outer.x) / outer.width);
+  const top = Math.max(0, (inner.y - outer.y) / outer.height);
+  const right = Math.min(1, (inner.x + inner.width - outer.x) / outer.width);
+  const bottom = Math.min(1, (inner.y + inner.height - outer.y) / outer.height);
+  return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+};
+
+export const findBestSimilarImage = (
+  candidates: EnhancedImage[],
+  sourceDigest: string,
+  cropArea: CropArea,
+  zoomLevel: number,
+  options: SimilarityOptions = DEFAULT_SIMILARITY_OPTIONS
+): SimilarCacheMatch | null => {
+  const requested = normalizeViewport(cropArea, cropArea.sourceWidth, cropArea.sourceHeight);
+  const requestedArea = requested.width * requested.height;
+  if (requestedArea <= 0) return null;
+
+  let best: SimilarCacheMatch | null = null;
+
+  for (const image of candidates) {
+    if (image.sourceDigest !== sourceDigest) continue;
+
+    const zoomRatio = Math.max(image.zoomLevel / zoomLevel, zoomLevel / image.zoomLevel);
+    if (!(zoomRatio <= options.maxZoomRatio)) continue;
+
+    const cached = normalizeViewport(image.viewport, image.sourceWidth, image.sourceHeight);
+    const coverage = intersectionArea(requested, cached) / requestedArea;
+    if (coverage < options.minCoverage) continue;
+
+    const iou = intersectionOverUnion(requested, cached);
+    if (!best || iou > best.iou) {
+      best = { image, iou, coverage, region: relativeRegion(requested, cached) };
+    }
+  }
+
+  return best;
+};
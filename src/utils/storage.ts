@@ -0,0 +1,32 @@
+// localStorage access that never throws: reads fall back, writes are best effort
+
+export const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+export const readJson = <T>(key: string, fallback: T): T => {
+  const stored = readStorage(key);
+  if (!stored) return fallback;
+  try {
+    return JSON.parse(stored) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+// `null` removes the key
+export const writeStorage = (key: string, value: string | null): void => {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch {
+    // Storage may be unavailable (private mode); changes still apply for this session
+  }
+};
@@ -0,0 +1,190 @@
+import type { ViewportBounds } from '../types/enhancement';
+import { featherCanvasEdges } from './tiling';
+import { getVisibleWorldRect, type ViewMatrix } from './viewTransform';
+
+const TILE_SIZE = 256;
+// Fraction of a layer's shorter side blended into the layers beneath it
+const LAYER_FEATHER = 0.04;
+
+type PyramidSource = HTMLImageElement | HTMLCanvasElement;
+
+interface PyramidTile {
+  canvas: HTMLCanvasElement;
+  worldRect: ViewportBounds;
+}
+
+interface PyramidLevel {
+  density: number; // tile pixels per world unit
+  tiles: PyramidTile[];
+}
+
+interface PyramidLayer {
+  worldRect: ViewportBounds;
+  density: number; // native pixels per world unit
+  levels: PyramidLevel[]; // finest first, each half the resolution of the previous
+}
+
+const sourceSize = (source: PyramidSource) => ({
+  width: source instanceof HTMLImageElement ? source.naturalWidth : source.width,
+  height: source instanceof HTMLImageElement ? source.naturalHeight : source.height
+});
+
+const intersects = (a: ViewportBounds, b: ViewportBounds): boolean => {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+};
+
+const contains = (outer: ViewportBounds, inner: ViewportBounds): boolean => {
+  return outer.x <= inner.x && outer.y <= inner.y &&
+    outer.x + outer.width >= inner.x + inner.width &&
+    outer.y + outer.height >= inner.y + inner.height;
+};
+
+const cutTiles = (source: HTMLCanvasElement, worldRect: ViewportBounds): PyramidTile[] => {
+  const tiles: PyramidTile[] = [];
+  const worldPerPixelX = worldRect.width / source.width;
+  const worldPerPixelY = worldRect.height / source.height;
+
+  for (let y = 0; y < source.height; y += TILE_SIZE) {
+    for (let x = 0; x < source.width; x += TILE_SIZE) {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.min(TILE_SIZE, source.width - x);
+      canvas.height = Math.min(TILE_SIZE, source.height - y);
+      canvas.getContext('2d')?.drawImage(source, -x, -y);
+      tiles.push({
+        canvas,
+        worldRect: {
+          x: worldRect.x + x * worldPerPixelX,
+          y: worldRect.y + y * worldPerPixelY,
+          width: canvas.width * worldPerPixelX,
+          height: canvas.height * worldPerPixelY
+        }
+      });
+    }
+  }
+  return tiles;
+};
+
+// Deep-zoom style image pyramid. World units are pixels of the base image; every added
+// layer covers some world rectangle at its own (usually much higher) density and is kept
+// as power-of-two levels of 256px tiles so drawing only touches what is on screen.
+export class TilePyramid {
+  readonly width: number;
+  readonly height: number;
+  private layers: PyramidLayer[] = [];
+
+  constructor(base: PyramidSource) {
+    const { width, height } = sourceSize(base);
+    this.width = width;
+    this.height = height;
+    this.addLayer(base, { x: 0, y: 0, width, height });
+  }
+
+  get layerCount(): number {
+    return this.layers.length;
+  }
+
+  addLayer(source: PyramidSource, worldRect: ViewportBounds): void {
+    const { width, height } = sourceSize(source);
+    const finest = document.createElement('canvas');
+    finest.width = width;
+    finest.height = height;
+    const ctx = finest.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.drawImage(source, 0, 0);
+
+    // Blend every layer but the base into what lies beneath, except along the world edge
+    if (this.layers.length > 0) {
+      const feather = Math.round(Math.min(width, height) * LAYER_FEATHER);
+      featherCanvasEdges(ctx, {
+        left: worldRect.x > 0 ? feather : 0,
+        top: worldRect.y > 0 ? feather : 0,
+        right: worldRect.x + worldRect.width < this.width ? feather : 0,
+        bottom: worldRect.y + worldRect.height < this.height ? feather : 0
+      });
+    }
+
+    const levels: PyramidLevel[] = [];
+    let level = finest;
+    for (;;) {
+      levels.push({ density: level.width / worldRect.width, tiles: cutTiles(level, worldRect) });
+      if (level.width <= TILE_SIZE && level.height <= TILE_SIZE) break;
+
+      const next = document.createElement('canvas');
+      next.width = Math.max(1, Math.ceil(level.width / 2));
+      next.height = Math.max(1, Math.ceil(level.height / 2));
+      const nextCtx = next.getContext('2d');
+      if (!nextCtx) break;
+      nextCtx.imageSmoothingQuality = 'high';
+      nextCtx.drawImage(level, 0, 0, next.width, next.height);
+      level = next;
+    }
+
+    this.layers.push({ worldRect, density: levels[0].density, levels });
+    // Coarse layers first so finer detail is painted over them
+    this.layers.sort((a, b) => a.density - b.density);
+  }
+
+  // Highest native density among layers that fully cover `worldRect`
+  getDetailDensity(worldRect: ViewportBounds): number {
+    return this.layers
+      .filter(layer => contains(layer.worldRect, worldRect))
+      .reduce((best, layer) => Math.max(best, layer.density), 0) || this.layers[0].density;
+  }
+
+  getMaxDensity(): number {
+    return this.layers.reduce((best, layer) => Math.max(best, layer.density), 0);
+  }
+
+  draw(ctx: CanvasRenderingContext2D, view: ViewMatrix): void {
+    const { width: screenWidth, height: screenHeight } = ctx.canvas;
+    const visible = getVisibleWorldRect(view, {
+      viewportWidth: screenWidth,
+      viewportHeight: screenHeight,
+      contentWidth: this.width,
+      contentHeight: this.height
+    });
+
+    ctx.clearRect(0, 0, screenWidth, screenHeight);
+    ctx.imageSmoothingQuality = 'high';
+
+    for (const layer of this.layers) {
+      if (!intersects(layer.worldRect, visible)) continue;
+
+      // Coarsest level that still has at least one pixel per screen pixel
+      const level = [...layer.levels].reverse().find(candidate => candidate.density >= view.scale) ?? layer.levels[0];
+
+      for (const tile of level.tiles) {
+        if (!intersects(tile.worldRect, visible)) continue;
+        // Snap to whole pixels and overdraw by one so neighbouring tiles never leave a gap
+        const x = Math.floor(tile.worldRect.x * view.scale + view.offsetX);
+        const y = Math.floor(tile.worldRect.y * view.scale + view.offsetY);
+        const right = Math.ceil((tile.worldRect.x + tile.worldRect.width) * view.scale + view.offsetX);
+        const bottom = Math.ceil((tile.worldRect.y + tile.worldRect.height) * view.scale + view.offsetY);
+        ctx.drawImage(tile.canvas, x, y, right - x + 1, bottom - y + 1);
+      }
+    }
+  }
+
+  // Render a world region at the best density available (capped) into a new canvas
+  renderRegion(worldRect: ViewportBounds, maxDimension: number): HTMLCanvasElement {
+    const density = Math.min(
+      this.getDetailDensity(worldRect),
+      maxDimension / Math.max(worldRect.width, worldRect.height)
+    );
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(worldRect.width * density));
+    canvas.height = Math.max(1, Math.round(worldRect.height * density));
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    this.draw(ctx, { scale: density, offsetX: -worldRect.x * density, offsetY: -worldRect.y * density });
+    return canvas;
+  }
+}
@@ -0,0 +1,137 @@
+import type { CropArea } from '../types/enhancement';
+import { loadImage } from './viewport';
+
+export interface TilingOptions {
+  tileSize: number; // target tile edge in source pixels
+  overlap: number; // source pixels shared by neighbouring tiles
+  concurrency: number;
+  maxOutputDimension: number;
+}
+
+export const DEFAULT_TILING_OPTIONS: TilingOptions = {
+  tileSize: 768,
+  overlap: 96,
+  concurrency: 2,
+  maxOutputDimension: 8192
+};
+
+export interface Tile extends CropArea {
+  row: number;
+  column: number;
+}
+
+// Split one axis into `count` spans of equal length that overlap by `overlap`
+const splitAxis = (start: number, length: number, tileSize: number, overlap: number): Array<[number, number]> => {
+  const count = length <= tileSize ? 1 : Math.ceil((length - overlap) / (tileSize - overlap));
+  const span = count === 1 ? length : Math.ceil((length + overlap * (count - 1)) / count);
+  const step = count === 1 ? 0 : (length - span) / (count - 1);
+
+  return Array.from({ length: count }, (_, i) => {
+    const offset = Math.round(start + i * step);
+    return [offset, Math.min(span, start + length - offset)];
+  });
+};
+
+export const planTiles = (cropArea: CropArea, options: TilingOptions = DEFAULT_TILING_OPTIONS): Tile[] => {
+  const overlap = Math.min(options.overlap, Math.floor(options.tileSize / 2));
+  const columns = splitAxis(cropArea.x, cropArea.width, options.tileSize, overlap);
+  const rows = splitAxis(cropArea.y, cropArea.height, options.tileSize, overlap);
+
+  const tiles: Tile[] = [];
+  rows.forEach(([y, height], row) => {
+    columns.forEach(([x, width], column) => {
+      tiles.push({
+        x,
+        y,
+        width,
+        height,
+        sourceWidth: cropArea.sourceWidth,
+        sourceHeight: cropArea.sourceHeight,
+        aspectRatio: width / height,
+        row,
+        column
+      });
+    });
+  });
+  return tiles;
+};
+
+export interface FeatherEdges {
+  left?: number;
+  top?: number;
+  right?: number;
+  bottom?: number;
+}
+
+// Fade the canvas content to transparent over the given widths (in canvas pixels) at each edge
+export const featherCanvasEdges = (ctx: CanvasRenderingContext2D, edges: FeatherEdges): void => {
+  const { width, height } = ctx.canvas;
+  const ramps: Array<[number | undefined, number, number, number, number]> = [
+    [edges.left, 0, 0, edges.left ?? 0, 0],
+    [edges.top, 0, 0, 0, edges.top ?? 0],
+    [edges.right, width, 0, width - (edges.right ?? 0), 0],
+    [edges.bottom, 0, height, 0, height - (edges.bottom ?? 0)]
+  ];
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-in';
+  for (const [size, x0, y0, x1, y1] of ramps) {
+    if (!size || size <= 0) continue;
+    const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.restore();
+};
+
+// Stitch enhanced tiles into one image covering `cropArea`. Tiles are drawn in row-major
+// order; each fades in linearly across the overlap with the tile to its left and above,
+// which over the already drawn neighbour yields a linear cross-fade instead of a hard seam.
+export const blendTiles = async (
+  cropArea: CropArea,
+  tiles: Tile[],
+  enhancedTiles: string[],
+  maxOutputDimension: number = DEFAULT_TILING_OPTIONS.maxOutputDimension
+): Promise<string> => {
+  const images = await Promise.all(enhancedTiles.map(loadImage));
+
+  // Output at the lowest resolution any tile came back at, so no tile is upsampled
+  const tileScale = Math.min(...images.map((img, i) => img.naturalWidth / tiles[i].width));
+  const scale = Math.min(tileScale, maxOutputDimension / Math.max(cropArea.width, cropArea.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(cropArea.width * scale);
+  canvas.height = Math.round(cropArea.height * scale);
+  const ctx = canvas.getContext('2d');
+
+  const tileCanvas = document.createElement('canvas');
+  const tileCtx = tileCanvas.getContext('2d');
+
+  if (!ctx || !tileCtx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  tiles.forEach((tile, i) => {
+    const left = Math.round((tile.x - cropArea.x) * scale);
+    const top = Math.round((tile.y - cropArea.y) * scale);
+    const width = Math.round(tile.width * scale);
+    const height = Math.round(tile.height * scale);
+
+    tileCanvas.width = width;
+    tileCanvas.height = height;
+    tileCtx.drawImage(images[i], 0, 0, width, height);
+
+    const leftNeighbour = tiles.find(other => other.row === tile.row && other.column === tile.column - 1);
+    const topNeighbour = tiles.find(other => other.column === tile.column && other.row === tile.row - 1);
+    featherCanvasEdges(tileCtx, {
+      left: leftNeighbour && (leftNeighbour.x + leftNeighbour.width - tile.x) * scale,
+      top: topNeighbour && (topNeighbour.y + topNeighbour.height - tile.y) * scale
+    });
+
+    ctx.drawImage(tileCanvas, left, top);
+  });
+
+  return canvas.toDataURL('image/png');
+};
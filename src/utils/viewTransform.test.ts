@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clampPan,
+  computeViewMatrix,
+  getVisibleWorldRect,
+  screenToWorld,
+  worldToScreen,
+  zoomAtPoint,
+  type ViewLayout
+} from './viewTransform';
+
+// 800x600 viewport showing a 400x200 image: fit scale 2, letterboxed vertically
+const layout: ViewLayout = { viewportWidth: 800, viewportHeight: 600, contentWidth: 400, contentHeight: 200 };
+const limits = { min: 0.1, max: 10 };
+
+describe('viewTransform', () => {
+  it('round-trips world -> screen -> world', () => {
+    const matrix = computeViewMatrix(layout, { zoomLevel: 2.5, panPosition: { x: -120, y: 35 } });
+    const world = { x: 123.4, y: 56.7 };
+    const back = screenToWorld(matrix, worldToScreen(matrix, world));
+    expect(back.x).toBeCloseTo(world.x, 9);
+    expect(back.y).toBeCloseTo(world.y, 9);
+  });
+
+  it('keeps the world point under the anchor fixed when zooming', () => {
+    const view = { zoomLevel: 2, panPosition: { x: 50, y: -20 } };
+    const anchor = { x: 300, y: 250 };
+    const before = screenToWorld(computeViewMatrix(layout, view), anchor);
+
+    const zoomed = zoomAtPoint(layout, view, 3, anchor, limits);
+    const after = worldToScreen(computeViewMatrix(layout, zoomed), before);
+
+    expect(zoomed.zoomLevel).toBe(3);
+    expect(after.x).toBeCloseTo(anchor.x, 9);
+    expect(after.y).toBeCloseTo(anchor.y, 9);
+  });
+
+  it('clamps pan so larger content keeps covering the viewport', () => {
+    const view = clampPan(layout, { zoomLevel: 4, panPosition: { x: 10_000, y: -10_000 } });
+    const matrix = computeViewMatrix(layout, view);
+    const topLeft = worldToScreen(matrix, { x: 0, y: 0 });
+    const bottomRight = worldToScreen(matrix, { x: layout.contentWidth, y: layout.contentHeight });
+
+    expect(topLeft.x).toBeCloseTo(0, 9);
+    expect(bottomRight.y).toBeCloseTo(layout.viewportHeight, 9);
+    expect(topLeft.y).toBeLessThanOrEqual(0);
+    expect(bottomRight.x).toBeGreaterThanOrEqual(layout.viewportWidth);
+  });
+
+  it('clamps zoom to the limits, still anchored at the point', () => {
+    const view = { zoomLevel: 2, panPosition: { x: 0, y: 0 } };
+    const anchor = { x: 400, y: 300 };
+
+    const zoomedIn = zoomAtPoint(layout, view, 50, anchor, limits);
+    expect(zoomedIn.zoomLevel).toBe(limits.max);
+    const anchorWorld = screenToWorld(computeViewMatrix(layout, view), anchor);
+    const anchorAfter = worldToScreen(computeViewMatrix(layout, zoomedIn), anchorWorld);
+    expect(anchorAfter.x).toBeCloseTo(anchor.x, 9);
+    expect(anchorAfter.y).toBeCloseTo(anchor.y, 9);
+
+    const zoomedOut = zoomAtPoint(layout, view, 0.01, anchor, limits);
+    expect(zoomedOut.zoomLevel).toBe(limits.min);
+  });
+
+  it('centers content that is smaller than the viewport', () => {
+    // At zoom 1 the image is 800x400 on screen: full width, shorter than the viewport
+    const view = clampPan(layout, { zoomLevel: 1, panPosition: { x: 75, y: 90 } });
+    expect(view.panPosition.x).toBeCloseTo(0, 9);
+    expect(view.panPosition.y).toBeCloseTo(0, 9);
+
+    const shrunk = clampPan(layout, { zoomLevel: 0.5, panPosition: { x: -40, y: 40 } });
+    expect(shrunk.panPosition.x).toBeCloseTo(0, 9);
+    expect(shrunk.panPosition.y).toBeCloseTo(0, 9);
+  });
+
+  it('clips the visible world rect to the content bounds', () => {
+    // Zoomed out, the whole image is visible with room to spare around it
+    const zoomedOut = getVisibleWorldRect(computeViewMatrix(layout, { zoomLevel: 0.5, panPosition: { x: 0, y: 0 } }), layout);
+    expect(zoomedOut).toEqual({ x: 0, y: 0, width: 400, height: 200 });
+
+    // Zoomed in at the top-left corner, only the part inside the viewport is returned
+    const matrix = computeViewMatrix(layout, { zoomLevel: 4, panPosition: { x: 1200, y: 500 } });
+    const visible = getVisibleWorldRect(matrix, layout);
+    expect(visible.x).toBe(0);
+    expect(visible.y).toBe(0);
+    expect(visible.width).toBeCloseTo(100, 9);
+    expect(visible.height).toBeCloseTo(75, 9);
+  });
+});
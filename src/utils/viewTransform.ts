@@ -0,0 +1,125 @@
+import type { ViewportBounds } from '../types/enhancement';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Zoom 1 fits the whole content in the viewport; pan is in screen pixels from the centered position
+export interface ViewState {
+  zoomLevel: number;
+  panPosition: Point;
+}
+
+// The viewport in screen pixels and the content in its own (world) pixels; all sizes must be positive
+export interface ViewLayout {
+  viewportWidth: number;
+  viewportHeight: number;
+  contentWidth: number;
+  contentHeight: number;
+}
+
+// World -> screen mapping: screen = world * scale + offset
+export interface ViewMatrix {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface ZoomLimits {
+  min: number;
+  max: number;
+}
+
+// Screen pixels per world pixel at zoom 1
+export const getFitScale = (layout: ViewLayout): number => {
+  return Math.min(layout.viewportWidth / layout.contentWidth, layout.viewportHeight / layout.contentHeight);
+};
+
+export const computeViewMatrix = (layout: ViewLayout, view: ViewState): ViewMatrix => {
+  const scale = getFitScale(layout) * view.zoomLevel;
+  return {
+    scale,
+    offsetX: layout.viewportWidth / 2 + view.panPosition.x - (layout.contentWidth / 2) * scale,
+    offsetY: layout.viewportHeight / 2 + view.panPosition.y - (layout.contentHeight / 2) * scale
+  };
+};
+
+export const worldToScreen = (matrix: ViewMatrix, point: Point): Point => ({
+  x: point.x * matrix.scale + matrix.offsetX,
+  y: point.y * matrix.scale + matrix.offsetY
+});
+
+export const screenToWorld = (matrix: ViewMatrix, point: Point): Point => ({
+  x: (point.x - matrix.offsetX) / matrix.scale,
+  y: (point.y - matrix.offsetY) / matrix.scale
+});
+
+// The part of the content inside the viewport, in world pixels
+export const getVisibleWorldRect = (matrix: ViewMatrix, layout: ViewLayout): ViewportBounds => {
+  const topLeft = screenToWorld(matrix, { x: 0, y: 0 });
+  const bottomRight = screenToWorld(matrix, { x: layout.viewportWidth, y: layout.viewportHeight });
+  const left = Math.max(0, topLeft.x);
+  const top = Math.max(0, topLeft.y);
+  const right = Math.min(layout.contentWidth, bottomRight.x);
+  const bottom = Math.min(layout.contentHeight, bottomRight.y);
+  return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+};
+
+// Content larger than the viewport must keep covering it; smaller content stays centered
+export const clampPan = (layout: ViewLayout, view: ViewState): ViewState => {
+  const scale = getFitScale(layout) * view.zoomLevel;
+  const maxX = Math.max(0, (layout.contentWidth * scale - layout.viewportWidth) / 2);
+  const maxY = Math.max(0, (layout.contentHeight * scale - layout.viewportHeight) / 2);
+  return {
+    zoomLevel: view.zoomLevel,
+    panPosition: {
+      x: Math.min(maxX, Math.max(-maxX, view.panPosition.x)),
+      y: Math.min(maxY, Math.max(-maxY, view.panPosition.y))
+    }
+  };
+};
+
+export const panBy = (layout: ViewLayout, view: ViewState, deltaX: number, deltaY: number): ViewState => {
+  return clampPan(layout, {
+    zoomLevel: view.zoomLevel,
+    panPosition: { x: view.panPosition.x + deltaX, y: view.panPosition.y + deltaY }
+  });
+};
+
+// Change zoom so the world point under `screenPoint` stays under it (as far as clamping allows)
+export const zoomAtPoint = (
+  layout: ViewLayout,
+  view: ViewState,
+  zoomLevel: number,
+  screenPoint: Point,
+  limits: ZoomLimits
+): ViewState => {
+  const clampedZoom = Math.min(limits.max, Math.max(limits.min, zoomLevel));
+  const anchor = screenToWorld(computeViewMatrix(layout, view), screenPoint);
+  const scale = getFitScale(layout) * clampedZoom;
+  return clampPan(layout, {
+    zoomLevel: clampedZoom,
+    panPosition: {
+      x: screenPoint.x - layout.viewportWidth / 2 - (anchor.x - layout.contentWidth / 2) * scale,
+      y: screenPoint.y - layout.viewportHeight / 2 - (anchor.y - layout.contentHeight / 2) * scale
+    }
+  });
+};
+
+// Pan so `worldPoint` sits in the middle of the viewport
+export const centerOn = (layout: ViewLayout, view: ViewState, worldPoint: Point): ViewState => {
+  const scale = getFitScale(layout) * view.zoomLevel;
+  return clampPan(layout, {
+    zoomLevel: view.zoomLevel,
+    panPosition: {
+      x: (layout.contentWidth / 2 - worldPoint.x) * scale,
+      y: (layout.contentHeight / 2 - worldPoint.y) * scale
+    }
+  });
+};
+
+// Zoom at which the content's height exactly fills the viewport
+export const getFitToHeightZoom = (layout: ViewLayout): number => {
+  return layout.viewportHeight / (layout.contentHeight * getFitScale(layout));
+};
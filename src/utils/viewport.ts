@@ -1,4 +1,6 @@
-import type { ViewportBounds, CropArea } from '../types/enhancement';
+import type { ViewportBounds, CropArea, CroppedImage, NormalizedRegion } from '../types/enhancement';
+import { hashText } from './hash';
+import { computeViewMatrix, getVisibleWorldRect, type ViewLayout, type ViewState } from './viewTransform';
 
 export const calculateViewportBounds = (
   containerRect: DOMRect,
@@ -36,124 +38,163 @@ export const calculateViewportBounds = (
   };
 };
 
+// Crop exactly `cropArea` and letterbox it onto a canvas of `cropArea.aspectRatio`,
+// so nothing the user was looking at is cut away to fit a fixed frame
 export const cropImageFromCanvas = async (
   imageSrc: string,
   cropArea: CropArea
-): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        reject(new Error('Failed to get canvas context'));
-        return;
-      }
-      
-      // Calculate 4:3 aspect ratio dimensions
-      const aspectRatio = 4 / 3;
-      let finalWidth = cropArea.width;
-      let finalHeight = cropArea.height;
-      let sourceX = cropArea.x;
-      let sourceY = cropArea.y;
-      let sourceWidth = cropArea.width;
-      let sourceHeight = cropArea.height;
-      
-      const currentRatio = cropArea.width / cropArea.height;
-      
-      if (currentRatio > aspectRatio) {
-        // Image is wider than 4:3, adjust width or crop horizontally
-        finalWidth = Math.round(cropArea.height * aspectRatio);
-        finalHeight = cropArea.height;
-        // Center the crop horizontally
-        const widthDiff = cropArea.width - finalWidth;
-        sourceX = cropArea.x + Math.round(widthDiff / 2);
-        sourceWidth = finalWidth;
-      } else if (currentRatio < aspectRatio) {
-        // Image is taller than 4:3, adjust height or crop vertically
-        finalWidth = cropArea.width;
-        finalHeight = Math.round(cropArea.width / aspectRatio);
-        // Center the crop vertically
-        const heightDiff = cropArea.height - finalHeight;
-        sourceY = cropArea.y + Math.round(heightDiff / 2);
-        sourceHeight = finalHeight;
-      }
-      
-      // Set canvas size to 4:3 dimensions
-      canvas.width = finalWidth;
-      canvas.height = finalHeight;
-      
-      // Draw the cropped portion with 4:3 aspect ratio
-      ctx.drawImage(
-        img,
-        sourceX, sourceY, sourceWidth, sourceHeight,
-        0, 0, finalWidth, finalHeight
-      );
-      
-      // Convert to base64
-      const croppedImageData = canvas.toDataURL('image/png');
-      resolve(croppedImageData);
-    };
-    
-    img.onerror = () => reject(new Error('Failed to load image'));
-    img.src = imageSrc;
-  });
+): Promise<CroppedImage> => {
+  const img = await loadImage(imageSrc);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const cropRatio = cropArea.width / cropArea.height;
+  const aspectRatio = cropArea.aspectRatio ?? cropRatio;
+
+  // Grow the frame along one axis until it reaches the target ratio
+  let frameWidth = cropArea.width;
+  let frameHeight = cropArea.height;
+  if (cropRatio < aspectRatio) {
+    frameWidth = Math.round(cropArea.height * aspectRatio);
+  } else if (cropRatio > aspectRatio) {
+    frameHeight = Math.round(cropArea.width / aspectRatio);
+  }
+
+  const offsetX = Math.round((frameWidth - cropArea.width) / 2);
+  const offsetY = Math.round((frameHeight - cropArea.height) / 2);
+
+  canvas.width = frameWidth;
+  canvas.height = frameHeight;
+
+  // Letterbox bars
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, frameWidth, frameHeight);
+
+  ctx.drawImage(
+    img,
+    cropArea.x, cropArea.y, cropArea.width, cropArea.height,
+    offsetX, offsetY, cropArea.width, cropArea.height
+  );
+
+  return {
+    data: canvas.toDataURL('image/png'),
+    aspectRatio,
+    contentRegion: {
+      x: offsetX / frameWidth,
+      y: offsetY / frameHeight,
+      width: cropArea.width / frameWidth,
+      height: cropArea.height / frameHeight
+    }
+  };
+};
+
+export const isFullRegion = (region: NormalizedRegion): boolean => {
+  return region.x === 0 && region.y === 0 && region.width === 1 && region.height === 1;
 };
 
 export const generateCacheKey = (
-  imageSrc: string,
+  sourceDigest: string,
   viewport: ViewportBounds,
-  zoomLevel: number
+  zoomLevel: number,
+  prompt?: string
 ): string => {
   const roundedZoom = Math.round(zoomLevel * 100) / 100;
-  return `${btoa(imageSrc.slice(0, 50))}_${viewport.x}_${viewport.y}_${viewport.width}_${viewport.height}_${roundedZoom}`;
+  const key = `${sourceDigest}_${viewport.x}_${viewport.y}_${viewport.width}_${viewport.height}_${roundedZoom}`;
+  // The same region enhanced with different instructions is a different result
+  return prompt === undefined ? key : `${key}_${hashText(prompt)}`;
 };
 
-export const shouldEnhanceImage = (zoomLevel: number): boolean => {
-  return zoomLevel > 3.0; // 300%
+// Zoom at which `region` would fill the viewfinder, for regions picked without zooming
+export const regionZoomLevel = (region: CropArea): number => {
+  return Math.min(region.sourceWidth / region.width, region.sourceHeight / region.height);
 };
 
-export const getVisibleImageBounds = (
-  containerElement: HTMLElement,
-  imageElement: HTMLImageElement,
-  zoomLevel: number,
-  panPosition: { x: number; y: number }
-): CropArea => {
-  const containerRect = containerElement.getBoundingClientRect();
-  const imageRect = imageElement.getBoundingClientRect();
-  
-  // Calculate the actual displayed size of the image
-  const displayedWidth = imageElement.offsetWidth * zoomLevel;
-  const displayedHeight = imageElement.offsetHeight * zoomLevel;
-  
-  // Calculate the position of the image relative to container
-  const imageLeft = imageRect.left - containerRect.left + panPosition.x;
-  const imageTop = imageRect.top - containerRect.top + panPosition.y;
-  
-  // Calculate visible area boundaries
-  const visibleLeft = Math.max(0, -imageLeft);
-  const visibleTop = Math.max(0, -imageTop);
-  const visibleRight = Math.min(displayedWidth, containerRect.width - imageLeft);
-  const visibleBottom = Math.min(displayedHeight, containerRect.height - imageTop);
-  
-  // Convert to natural image coordinates
-  const scaleX = imageElement.naturalWidth / imageElement.offsetWidth;
-  const scaleY = imageElement.naturalHeight / imageElement.offsetHeight;
-  
-  const cropX = (visibleLeft / zoomLevel) * scaleX;
-  const cropY = (visibleTop / zoomLevel) * scaleY;
-  const cropWidth = ((visibleRight - visibleLeft) / zoomLevel) * scaleX;
-  const cropHeight = ((visibleBottom - visibleTop) / zoomLevel) * scaleY;
-  
+export const shouldEnhanceImage = (zoomLevel: number, threshold: number = 3): boolean => {
+  return zoomLevel > threshold;
+};
+
+// The visible part of the displayed image, in its natural pixels, as a crop for enhancement
+export const getVisibleImageBounds = (layout: ViewLayout, view: ViewState): CropArea => {
+  const visible = getVisibleWorldRect(computeViewMatrix(layout, view), layout);
   return {
-    x: Math.max(0, Math.round(cropX)),
-    y: Math.max(0, Math.round(cropY)),
-    width: Math.round(cropWidth),
-    height: Math.round(cropHeight),
-    sourceWidth: imageElement.naturalWidth,
-    sourceHeight: imageElement.naturalHeight
+    x: Math.round(visible.x),
+    y: Math.round(visible.y),
+    width: Math.round(visible.width),
+    height: Math.round(visible.height),
+    sourceWidth: layout.contentWidth,
+    sourceHeight: layout.contentHeight
   };
-};
\ No newline at end of file
+};
+
+export const loadImage = (imageSrc: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageSrc;
+  });
+};
+
+// Downscaled copy of the whole image with `region` outlined, to show a model where a crop sits
+export const renderContextOverview = async (
+  imageSrc: string,
+  region: CropArea,
+  maxDimension: number = 768
+): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  // The region is in the coordinates of whatever size the image had when it was measured
+  const regionScaleX = canvas.width / region.sourceWidth;
+  const regionScaleY = canvas.height / region.sourceHeight;
+  const lineWidth = Math.max(2, Math.round(Math.max(canvas.width, canvas.height) / 200));
+  ctx.strokeStyle = '#ff0000';
+  ctx.lineWidth = lineWidth;
+  ctx.strokeRect(
+    region.x * regionScaleX + lineWidth / 2,
+    region.y * regionScaleY + lineWidth / 2,
+    Math.max(1, region.width * regionScaleX - lineWidth),
+    Math.max(1, region.height * regionScaleY - lineWidth)
+  );
+
+  return canvas.toDataURL('image/png');
+};
+
+// Cut a region given in fractions of the image out of it, at the image's native resolution
+export const cropNormalizedRegion = async (
+  imageSrc: string,
+  region: NormalizedRegion
+): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const sourceX = region.x * img.naturalWidth;
+  const sourceY = region.y * img.naturalHeight;
+  const width = Math.max(1, Math.round(region.width * img.naturalWidth));
+  const height = Math.max(1, Math.round(region.height * img.naturalHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(img, sourceX, sourceY, region.width * img.naturalWidth, region.height * img.naturalHeight, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
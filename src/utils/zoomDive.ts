@@ -0,0 +1,86 @@
+import type { ViewportBounds } from '../types/enhancement';
+
+export type DiveEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export const diveEasings: Record<DiveEasing, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - (1 - t) ** 3,
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2)
+};
+
+// One step of a dive: the camera travels from the whole parent into `target`, where the
+// child image (an enhancement of exactly that region) fades in over it
+export interface DiveSegment {
+  parent: HTMLImageElement;
+  child: HTMLImageElement;
+  target: ViewportBounds; // in parent pixels
+}
+
+// Fraction of each segment, at its end, over which the child fades in
+const CROSSFADE = 0.3;
+
+// Largest rect of the given aspect ratio centered inside `rect`, so frames never show
+// anything outside the image
+export const coverRect = (rect: ViewportBounds, aspectRatio: number): ViewportBounds => {
+  const width = Math.min(rect.width, rect.height * aspectRatio);
+  const height = width / aspectRatio;
+  return {
+    x: rect.x + (rect.width - width) / 2,
+    y: rect.y + (rect.height - height) / 2,
+    width,
+    height
+  };
+};
+
+// Camera at progress t from `from` to `to`. Width shrinks geometrically so the zoom rate feels
+// constant, and the center moves in step with it so the destination stays fixed on screen.
+export const interpolateCamera = (from: ViewportBounds, to: ViewportBounds, t: number): ViewportBounds => {
+  const scale = to.width / from.width;
+  const width = from.width * scale ** t;
+  const height = from.height * (to.height / from.height) ** t;
+  // Share of the total shrink covered so far; falls back to linear for pure pans
+  const travel = Math.abs(1 - scale) < 1e-6 ? t : (1 - width / from.width) / (1 - scale);
+
+  const fromCenterX = from.x + from.width / 2;
+  const fromCenterY = from.y + from.height / 2;
+  const centerX = fromCenterX + (to.x + to.width / 2 - fromCenterX) * travel;
+  const centerY = fromCenterY + (to.y + to.height / 2 - fromCenterY) * travel;
+  return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+};
+
+export const renderDiveFrame = (
+  ctx: CanvasRenderingContext2D,
+  segment: DiveSegment,
+  t: number
+): void => {
+  const { width: frameWidth, height: frameHeight } = ctx.canvas;
+  const aspectRatio = frameWidth / frameHeight;
+  const { parent, child, target } = segment;
+
+  const camera = interpolateCamera(
+    coverRect({ x: 0, y: 0, width: parent.naturalWidth, height: parent.naturalHeight }, aspectRatio),
+    coverRect(target, aspectRatio),
+    t
+  );
+  const scale = frameWidth / camera.width;
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, frameWidth, frameHeight);
+  ctx.drawImage(parent, -camera.x * scale, -camera.y * scale, parent.naturalWidth * scale, parent.naturalHeight * scale);
+
+  const fade = Math.min(1, Math.max(0, (t - (1 - CROSSFADE)) / CROSSFADE));
+  if (fade > 0) {
+    ctx.globalAlpha = fade;
+    ctx.drawImage(
+      child,
+      (target.x - camera.x) * scale,
+      (target.y - camera.y) * scale,
+      target.width * scale,
+      target.height * scale
+    );
+    ctx.globalAlpha = 1;
+  }
+};
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GOOGLE_AI_API_KEY?: string
+  readonly VITE_ENHANCEMENT_PROVIDER?: string
+  readonly VITE_GEMINI_REQUESTS_PER_MINUTE?: string
+}